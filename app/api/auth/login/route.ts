@@ -0,0 +1,26 @@
+/**
+ * Mock API: POST /api/auth/login
+ *
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { jsonError, mockRoute, readJson } from "@/lib/mock-backend/http"
+import { findUserByEmail, issueToken, toPublicUser } from "@/lib/mock-backend/store"
+
+export const POST = mockRoute(async (request) => {
+  const { email, password } = await readJson(request)
+  if (typeof email !== "string" || typeof password !== "string") {
+    return jsonError(400, "Email and password are required")
+  }
+
+  const user = findUserByEmail(email)
+  if (!user || user.password !== password) {
+    return jsonError(401, "Invalid email or password")
+  }
+
+  return Response.json({
+    access_token: issueToken(user),
+    token_type: "bearer",
+    user: toPublicUser(user),
+  })
+})
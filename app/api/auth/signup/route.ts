@@ -0,0 +1,27 @@
+/**
+ * Mock API: POST /api/auth/signup
+ *
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { jsonError, mockRoute, readJson } from "@/lib/mock-backend/http"
+import { createUser, findUserByEmail } from "@/lib/mock-backend/store"
+
+export const POST = mockRoute(async (request) => {
+  const { name, email, password } = await readJson(request)
+
+  const errors: Record<string, string> = {}
+  if (typeof name !== "string" || !name.trim()) errors.name = "Name is required"
+  if (typeof email !== "string" || !/^[^\s@]+@[^\s@]+$/.test(email)) errors.email = "A valid email is required"
+  if (typeof password !== "string" || password.length < 6) errors.password = "Password must be at least 6 characters"
+  if (Object.keys(errors).length > 0) {
+    return jsonError(400, "Invalid signup data", { errors })
+  }
+
+  if (findUserByEmail(email as string)) {
+    return jsonError(409, "User already exists")
+  }
+
+  const user = createUser(name as string, email as string, password as string)
+  return Response.json({ message: "User created successfully", user_id: user.id }, { status: 201 })
+})
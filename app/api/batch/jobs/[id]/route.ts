@@ -0,0 +1,22 @@
+/**
+ * Mock API: GET /api/batch/jobs/{job_id}
+ *
+ * Returns the status of one of the caller's batch jobs, with the batch
+ * result once it has completed.
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { jsonError, mockRoute, requireUser } from "@/lib/mock-backend/http"
+import { jobStatus } from "@/lib/mock-backend/jobs"
+import { findJob } from "@/lib/mock-backend/store"
+
+export const GET = mockRoute<{ params: Promise<{ id: string }> }>(async (request, { params }) => {
+  const user = requireUser(request)
+  if (user instanceof Response) return user
+
+  const { id } = await params
+  const job = findJob(user.id, id)
+  if (!job) return jsonError(404, "Batch job not found")
+
+  return Response.json(jobStatus(job))
+})
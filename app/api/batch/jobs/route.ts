@@ -0,0 +1,34 @@
+/**
+ * Mock API: POST /api/batch/jobs
+ *
+ * Accepts the same upload as `POST /api/batch` but answers at once with a
+ * queued job (202) to poll at `GET /api/batch/jobs/{job_id}`.
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { extractReviews } from "@/lib/mock-backend/batch"
+import { jsonError, mockRoute, requireUser } from "@/lib/mock-backend/http"
+import { createJob, jobStatus } from "@/lib/mock-backend/jobs"
+
+export const POST = mockRoute(async (request) => {
+  const user = requireUser(request)
+  if (user instanceof Response) return user
+
+  let file: FormDataEntryValue | null = null
+  try {
+    file = (await request.formData()).get("file")
+  } catch {
+    // Fall through to the missing file error
+  }
+  if (!(file instanceof File)) {
+    return jsonError(400, "A CSV file is required in the 'file' field")
+  }
+
+  const reviews = extractReviews(await file.text())
+  if (!reviews) {
+    return jsonError(400, "CSV must contain a 'review' header column")
+  }
+
+  const job = createJob(user.id, file.name, reviews)
+  return Response.json(jobStatus(job), { status: 202 })
+})
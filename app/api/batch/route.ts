@@ -0,0 +1,33 @@
+/**
+ * Mock API: POST /api/batch
+ *
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { buildBatchResponse, extractReviews } from "@/lib/mock-backend/batch"
+import { jsonError, mockRoute, requireUser } from "@/lib/mock-backend/http"
+import { saveBatch } from "@/lib/mock-backend/store"
+
+export const POST = mockRoute(async (request) => {
+  const user = requireUser(request)
+  if (user instanceof Response) return user
+
+  let file: FormDataEntryValue | null = null
+  try {
+    file = (await request.formData()).get("file")
+  } catch {
+    // Fall through to the missing file error
+  }
+  if (!(file instanceof File)) {
+    return jsonError(400, "A CSV file is required in the 'file' field")
+  }
+
+  const reviews = extractReviews(await file.text())
+  if (!reviews) {
+    return jsonError(400, "CSV must contain a 'review' header column")
+  }
+
+  const batch = buildBatchResponse(file.name, user.id, reviews)
+  saveBatch(user.id, batch)
+  return Response.json(batch)
+})
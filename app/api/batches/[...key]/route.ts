@@ -0,0 +1,21 @@
+/**
+ * Mock API: GET /api/batches/{s3_key}
+ *
+ * Returns one of the caller's finished batches with its reviews, in the
+ * same shape as `POST /api/batch`. The S3 key is the rest of the path.
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { jsonError, mockRoute, requireUser } from "@/lib/mock-backend/http"
+import { findBatch } from "@/lib/mock-backend/store"
+
+export const GET = mockRoute<{ params: Promise<{ key: string[] }> }>(async (request, { params }) => {
+  const user = requireUser(request)
+  if (user instanceof Response) return user
+
+  const { key } = await params
+  const batch = findBatch(user.id, key.join("/"))
+  if (!batch) return jsonError(404, "Batch not found")
+
+  return Response.json(batch)
+})
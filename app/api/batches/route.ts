@@ -0,0 +1,24 @@
+/**
+ * Mock API: GET /api/batches
+ *
+ * Lists the caller's finished batches, newest first, without their reviews.
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { mockRoute, requireUser } from "@/lib/mock-backend/http"
+import { listBatches } from "@/lib/mock-backend/store"
+
+export const GET = mockRoute(async (request) => {
+  const user = requireUser(request)
+  if (user instanceof Response) return user
+
+  return Response.json({
+    batches: listBatches(user.id).map(({ s3_key, file_name, processing_timestamp, summary }) => ({
+      s3_key,
+      file_name,
+      processing_timestamp,
+      total_reviews: summary.total_reviews,
+      summary,
+    })),
+  })
+})
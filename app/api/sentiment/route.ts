@@ -0,0 +1,26 @@
+/**
+ * Mock API: POST /api/sentiment
+ *
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { jsonError, mockRoute, readJson, requireUser } from "@/lib/mock-backend/http"
+import { scoreText } from "@/lib/mock-backend/lexicon"
+
+export const POST = mockRoute(async (request) => {
+  const user = requireUser(request)
+  if (user instanceof Response) return user
+
+  const { text } = await readJson(request)
+  if (typeof text !== "string" || !text.trim()) {
+    return jsonError(400, "Text is required", { errors: { text: "Text is required" } })
+  }
+
+  const { sentiment, confidence } = scoreText(text)
+  // The real endpoint answers single-text requests with title-case labels
+  return Response.json({
+    sentiment: sentiment.charAt(0) + sentiment.slice(1).toLowerCase(),
+    confidence,
+    review: text,
+  })
+})
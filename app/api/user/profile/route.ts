@@ -0,0 +1,14 @@
+/**
+ * Mock API: GET /api/user/profile
+ *
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { mockRoute, requireUser } from "@/lib/mock-backend/http"
+import { toPublicUser } from "@/lib/mock-backend/store"
+
+export const GET = mockRoute((request) => {
+  const user = requireUser(request)
+  if (user instanceof Response) return user
+  return Response.json(toPublicUser(user))
+})
@@ -1,18 +1,29 @@
 /**
  * Batch Uploads Analysis Page
- * 
- * This page allows users to upload CSV files containing multiple reviews
- * for bulk sentiment analysis. It provides a complete workflow from file
- * upload to results visualization.
- * 
+ *
+ * This page allows users to upload review files (CSV, TSV, JSON Lines,
+ * Excel or plain text) containing multiple reviews for bulk sentiment
+ * analysis. It provides a complete workflow from file upload to results
+ * visualization.
+ *
  * Features:
- * - Drag-and-drop file upload
- * - CSV file validation and processing
- * - Batch sentiment analysis with progress tracking
- * - Comprehensive results display with statistics
+ * - Drag-and-drop upload of one or more files, analyzed one after another
+ *   with a status per file
+ * - Pasted reviews or spreadsheet cells, analyzed like an uploaded file
+ * - In-browser parsing of every supported format with a preview, review column picker and
+ *   data checks before anything is uploaded
+ * - Batch sentiment analysis with upload progress, elapsed time, an
+ *   estimate of the time left and cancellation
+ * - Chunked processing for large files, with pause, resume and retry
+ * - Asynchronous jobs when the backend offers them, which keep running
+ *   after the page is left
+ * - Results per file or aggregated across all files, and a shortcut to
+ *   compare the first two files
+ * - Comprehensive results display with statistics, including the server's
+ *   summary next to the threshold-adjusted counts
  * - Error handling and user feedback
  * - Responsive design for all devices
- * 
+ *
  * @author Prudhvi2702
  * @version 1.0.0
  * @component
@@ -22,99 +33,280 @@
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { SentimentAPI, type SentimentResult } from "@/lib/sentiment-api"; // Use the correct type from sentiment-api
+import { describeApiError, useApiErrorHandler } from "@/hooks/use-api-error";
+import { useSentimentSettings } from "@/hooks/use-sentiment-settings";
+import { useBatchQueue, type QueueItem } from "@/hooks/use-batch-queue";
+import { useChunkedBatch } from "@/hooks/use-chunked-batch";
+import { useBatchJobs } from "@/hooks/use-batch-jobs";
+import { SentimentAPI, type BatchResult } from "@/lib/sentiment-api";
+import { classifyPredictions } from "@/lib/sentiment";
+import { isAbortError } from "@/lib/retry";
+import { AuthenticationExpiredError } from "@/lib/api-errors";
+import { createLogger } from "@/lib/logger";
+import { HistoryStore } from "@/lib/history-store";
+import { buildUploadFile, joinSourceRows, planReviewImport, type ImportPlan } from "@/lib/review-import";
+import {
+  applyJobProgress,
+  applyUploadProgress,
+  startUploadProgress,
+  type BatchProgress,
+  type UploadProgress,
+} from "@/lib/batch-progress";
+import {
+  CHUNKING_THRESHOLD,
+  DEFAULT_CHUNKED_BATCH_OPTIONS,
+  combineBatchResults,
+  type ChunkedBatchOptions,
+} from "@/lib/chunked-batch";
 import { FileUpload } from "@/components/file-upload";
+import { BatchQueueList } from "@/components/batch-queue";
+import { PasteReviews } from "@/components/paste-reviews";
+import { ImportPreview } from "@/components/import-preview";
+import { ChunkedBatchProgress, ChunkedBatchSettings } from "@/components/chunked-batch-panel";
+import { BatchProgressPanel } from "@/components/batch-progress-panel";
+import { BackgroundJobs } from "@/components/background-jobs";
+import { BatchSummaryPanel } from "@/components/batch-summary-panel";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ResultsTable as ImportedResultsTable } from "@/components/results-table";
-import { Loader2, Upload, FileText, BarChart3 } from "lucide-react";
-import { useState } from "react";
+import { SentimentSettingsDialog } from "@/components/sentiment-settings-dialog";
+import { ExportMenu } from "@/components/export-menu";
+import { Loader2, Upload, FileText, BarChart3, AlertTriangle, GitCompare } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 
-// Helper function to normalize sentiment values with confidence-based neutral detection
-const normalizeSentiment = (sentiment: string, confidence?: number): "Positive" | "Negative" | "Neutral" => {
-  const normalized = sentiment?.toLowerCase();
-  
-  // If confidence is low (< 0.7), classify as neutral regardless of sentiment
-  if (confidence !== undefined && confidence < 0.7) {
-    return "Neutral";
-  }
-  
-  if (normalized === "positive" || normalized === "pos") return "Positive";
-  if (normalized === "negative" || normalized === "neg") return "Negative";
-  return "Neutral";
-};
+const log = createLogger("batch-uploads");
+
+// Results view covering every finished file
+const ALL_FILES = "all";
+
+const planFor = (item: QueueItem): ImportPlan | null =>
+  item.table ? planReviewImport(item.table, item.reviewColumn, item.mapping, item.options) : null;
 
 export default function BatchUploadsPage() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [results, setResults] = useState<{ results: SentimentResult[]; totalProcessed: number } | null>(null);
-  const { isAuthenticated, isLoading } = useAuth();
+  // File currently being analyzed
+  const [currentItemId, setCurrentItemId] = useState<number | null>(null);
+  // Progress of a single-request upload; chunked jobs track their own
+  const [uploadProgress, setUploadProgress] = useState<BatchProgress | null>(null);
+  const [showResults, setShowResults] = useState(false);
+  const [resultsView, setResultsView] = useState<number | typeof ALL_FILES>(ALL_FILES);
+  const { user, isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
+  const handleApiError = useApiErrorHandler();
   const router = useRouter();
+  const { neutralThreshold } = useSentimentSettings();
+  const queue = useBatchQueue();
+  const chunkedBatch = useChunkedBatch();
+  const batchJobs = useBatchJobs();
+  // Asynchronous job the current file was submitted as
+  const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+  // null follows the default: chunk files larger than one chunk
+  const [chunkingChoice, setChunkingChoice] = useState<boolean | null>(null);
+  const [chunkedOptions, setChunkedOptions] = useState<ChunkedBatchOptions>(DEFAULT_CHUNKED_BATCH_OPTIONS);
+  const isChunkingEnabled = (plan: ImportPlan) => chunkingChoice ?? plan.reviews.length > CHUNKING_THRESHOLD;
+
+  const activeItem = queue.items.find((item) => item.id === queue.activeId) ?? queue.items[0];
+  const activePlan = useMemo(
+    () =>
+      activeItem?.table
+        ? planReviewImport(activeItem.table, activeItem.reviewColumn, activeItem.mapping, activeItem.options)
+        : null,
+    [activeItem?.table, activeItem?.reviewColumn, activeItem?.mapping, activeItem?.options],
+  );
+
+  const pendingItems = queue.items.filter((item) => item.status === "queued" || item.status === "failed");
+  const isParsing = queue.items.some((item) => item.status === "parsing");
+  const isChunking = chunkedBatch.status !== "idle" && chunkedBatch.status !== "done";
+  const isBusy = isAnalyzing || isChunking;
+  const currentJob = batchJobs.jobs.find((job) => job.jobId === currentJobId);
+  const progress = isChunking
+    ? chunkedBatch.progress
+    : uploadProgress && currentJob?.progress
+      ? applyJobProgress(uploadProgress, currentJob.progress)
+      : uploadProgress;
+  // Jobs from earlier visits that are still running
+  const backgroundJobs = batchJobs.jobs.filter((job) => job.jobId !== currentJobId);
+  const currentItem = queue.items.find((item) => item.id === currentItemId);
+
+  const doneItems = useMemo(
+    () => queue.items.filter((item): item is QueueItem & { result: BatchResult } => item.status === "done" && !!item.result),
+    [queue.items],
+  );
+  // Finished files saved to history, which the compare page can open
+  const comparableItems = doneItems.filter((item) => item.historyId);
+  // The file picked in the switcher, or every finished file combined
+  const viewedItems = useMemo(
+    () => (resultsView === ALL_FILES ? doneItems : doneItems.filter((item) => item.id === resultsView)),
+    [doneItems, resultsView],
+  );
+  const batchResult = useMemo(
+    () =>
+      viewedItems.length === 0
+        ? null
+        : viewedItems.length === 1
+          ? viewedItems[0].result
+          : combineBatchResults(viewedItems.map((item) => item.result)),
+    [viewedItems],
+  );
+
+  // Classified on render so a threshold change reclassifies the current batch
+  const results = useMemo(
+    () => (batchResult ? classifyPredictions(batchResult.reviews, neutralThreshold) : null),
+    [batchResult, neutralThreshold],
+  );
+
+  // Controller for the running queue, so Cancel can stop it
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel any in-flight upload when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  /**
+   * Analyzes one file: in chunks, as an asynchronous job when the backend
+   * offers them, or as a single upload.
+   */
+  const analyzeItem = async (item: QueueItem, plan: ImportPlan, signal: AbortSignal): Promise<BatchResult> => {
+    if (isChunkingEnabled(plan)) {
+      queue.update(item.id, { status: "processing" });
+      return chunkedBatch.start(plan.reviews, item.file.name, chunkedOptions);
+    }
+
+    setUploadProgress(startUploadProgress(plan.reviews.length));
+    // Only the chosen column is uploaded, as the single "review" column the API expects
+    const uploadFile = buildUploadFile(plan, item.file.name);
+    const onUploadProgress = (upload: UploadProgress) => {
+      setUploadProgress((current) => (current ? applyUploadProgress(current, upload) : current));
+      if (upload.total !== undefined && upload.loaded >= upload.total) {
+        queue.update(item.id, { status: "processing" });
+      }
+    };
+
+    if (await SentimentAPI.supportsAsyncBatch()) {
+      // The job outlives this page: leaving only stops waiting for it here
+      const job = await batchJobs.submit(uploadFile, { signal, onUploadProgress });
+      setCurrentJobId(job.jobId);
+      queue.update(item.id, { status: "processing" });
+      return batchJobs.waitFor(job.jobId, signal);
+    }
+
+    // The response is already validated and its text/label aliases normalized
+    return SentimentAPI.analyzeBatch(uploadFile, { signal, onUploadProgress });
+  };
 
   const handleAnalyze = async () => {
-    if (!selectedFile) {
+    if (pendingItems.length === 0) {
       toast({
         title: "Error",
-        description: "Please select a CSV file to analyze",
+        description: "Please select a review file to analyze",
         variant: "destructive",
       });
       return;
     }
 
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setIsAnalyzing(true);
+    let analyzedFiles = 0;
+    let analyzedReviews = 0;
+    let lastError: unknown = null;
     try {
-      const batchResult = await SentimentAPI.analyzeBatch(selectedFile);
-      console.log("Batch result received:", batchResult);
-      console.log("Batch result type:", typeof batchResult);
-      console.log("Batch result keys:", batchResult ? Object.keys(batchResult) : "null/undefined");
-      
-      // Handle the actual API response structure
-      if (!batchResult) {
-        console.error("No batch result received");
-        throw new Error("No response from batch analysis API");
-      }
+      // One file at a time, in the order they were added
+      for (const item of pendingItems) {
+        if (controller.signal.aborted) break;
+        const plan = planFor(item);
+        if (!plan || plan.reviews.length === 0) {
+          lastError = new Error("The selected column has no reviews to analyze");
+          queue.update(item.id, { status: "failed", error: "The selected column has no reviews to analyze" });
+          continue;
+        }
+
+        setCurrentItemId(item.id);
+        queue.update(item.id, { status: "uploading", error: undefined });
+        try {
+          const response = await analyzeItem(item, plan, controller.signal);
+          log.info("Batch result received", { file: response.file_name, count: response.reviews.length });
 
-      console.log("Processing batch result with structure:", Object.keys(batchResult));
-      
-      // The API returns reviews array, not results
-      const reviews = batchResult.reviews;
-      if (!reviews || !Array.isArray(reviews)) {
-        console.error("Invalid batch result structure - no reviews array:", batchResult);
-        throw new Error("Invalid response structure from batch analysis API");
+          // Number results by their row in the user's file and attach the mapped columns
+          const result = { ...response, reviews: joinSourceRows(response.reviews, plan) };
+          queue.update(item.id, { status: "done", result });
+          analyzedFiles++;
+          analyzedReviews += result.reviews.length;
+          if (user) {
+            HistoryStore.addBatch(user.id, item.file.name, result)
+              .then((record) => queue.update(item.id, { historyId: record.id }))
+              .catch((error) => log.warn("Could not save batch to history", { error }));
+          }
+        } catch (error) {
+          if (isAbortError(error)) {
+            // Cancelled by the user; the file can be analyzed again
+            queue.update(item.id, { status: "queued" });
+            break;
+          }
+          log.error("Batch analysis failed", { file: item.file.name, error });
+          lastError = error;
+          queue.update(item.id, {
+            status: "failed",
+            error: describeApiError(error, "Batch analysis failed").description,
+          });
+          // No later file can succeed without a session
+          if (error instanceof AuthenticationExpiredError) break;
+        } finally {
+          setUploadProgress(null);
+          setCurrentJobId(null);
+        }
       }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsAnalyzing(false);
+        setCurrentItemId(null);
+      }
+    }
 
-      setResults({
-        results: reviews.map((result: any) => ({
-          sentiment: normalizeSentiment(result.sentiment, result.confidence),
-          confidence: result.confidence || 0.5,
-          review: result.original_text || result.text || result.review || "",
-        })),
-        totalProcessed: reviews.length,
-      });
-              toast({
-          title: "Success",
-          description: `Successfully analyzed ${reviews.length} reviews!`,
-        });
-    } catch (error) {
-      console.error("Batch analysis error:", error);
+    // Cancelled by the user; the Cancel handler already reset the page
+    if (controller.signal.aborted) return;
+    if (lastError && (pendingItems.length === 1 || lastError instanceof AuthenticationExpiredError)) {
+      handleApiError(lastError, "Batch analysis failed");
+    } else if (lastError) {
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Batch analysis failed",
+        description: `${pendingItems.length - analyzedFiles} of ${pendingItems.length} files could not be analyzed. Select a file to see why, then analyze again to retry.`,
         variant: "destructive",
       });
-      if (error instanceof Error && error.message.includes("Session expired")) {
-        router.push("/login");
-      }
-    } finally {
-      setIsAnalyzing(false);
+    } else {
+      toast({
+        title: "Success",
+        description: `Successfully analyzed ${analyzedReviews} reviews${analyzedFiles > 1 ? ` from ${analyzedFiles} files` : ""}!`,
+      });
+      setResultsView(ALL_FILES);
+      setShowResults(true);
     }
   };
 
+  // Stops the running analysis but keeps the queued files and their settings
+  const handleCancel = () => {
+    // An explicit cancel also stops tracking the job, unlike leaving the page
+    if (currentJobId) batchJobs.forget(currentJobId);
+    setCurrentJobId(null);
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsAnalyzing(false);
+    setUploadProgress(null);
+    setCurrentItemId(null);
+    chunkedBatch.cancel();
+  };
+
   const handleReset = () => {
-    setSelectedFile(null);
-    setResults(null);
+    handleCancel();
+    queue.clear();
+    setChunkingChoice(null);
+    setShowResults(false);
   };
 
   if (isLoading) {
@@ -146,19 +338,19 @@ export default function BatchUploadsPage() {
     <div className="container mx-auto px-4 py-8 max-w-6xl">
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2">Batch Upload Analysis</h1>
-        <p className="text-muted-foreground">Upload a CSV file with multiple reviews to analyze sentiment in bulk</p>
+        <p className="text-muted-foreground">Upload review files with multiple reviews to analyze sentiment in bulk</p>
       </div>
 
-      {!results ? (
+      {!showResults || !results ? (
         <div className="max-w-2xl mx-auto space-y-6">
           {/* Instructions */}
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <FileText className="h-5 w-5" />
-                CSV Format Requirements
+                File Format Requirements
               </CardTitle>
-              <CardDescription>Your CSV file should follow this format for best results</CardDescription>
+              <CardDescription>Your file should follow this format for best results</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="bg-muted/50 p-4 rounded-lg font-mono text-sm">
@@ -170,10 +362,13 @@ export default function BatchUploadsPage() {
               </div>
               <div className="mt-4 text-sm text-muted-foreground">
                 <ul className="list-disc list-inside space-y-1">
-                  <li>First row should contain the header "review"</li>
-                  <li>Each subsequent row should contain one review</li>
+                  <li>First row should contain column headers</li>
+                  <li>Each subsequent row should contain one review; you pick the review column after selecting the file</li>
+                  <li>Comma, semicolon, tab and pipe separators are detected automatically</li>
+                  <li>Several files can be added at once; they are analyzed one after another</li>
+                  <li>Reviews copied from a spreadsheet or typed one per line can be pasted instead of uploaded</li>
                   <li>Maximum file size: 10MB</li>
-                  <li>Supported format: CSV files only</li>
+                  <li>Supported formats: CSV, TSV, JSON Lines (one object per line), Excel (first sheet) and plain text (one review per line)</li>
                 </ul>
               </div>
             </CardContent>
@@ -184,20 +379,116 @@ export default function BatchUploadsPage() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Upload className="h-5 w-5" />
-                Upload CSV File
+                Upload Review Files
               </CardTitle>
-              <CardDescription>Select your CSV file containing customer reviews</CardDescription>
+              <CardDescription>Select one or more files containing customer reviews, or paste reviews directly</CardDescription>
             </CardHeader>
             <CardContent>
-              <FileUpload onFileSelect={setSelectedFile} selectedFile={selectedFile} disabled={isAnalyzing} />
+              <Tabs defaultValue="files">
+                <TabsList>
+                  <TabsTrigger value="files">Upload Files</TabsTrigger>
+                  <TabsTrigger value="paste">Paste Reviews</TabsTrigger>
+                </TabsList>
+                <TabsContent value="files">
+                  <FileUpload multiple onFilesSelect={queue.add} disabled={isBusy} />
+                </TabsContent>
+                <TabsContent value="paste">
+                  <PasteReviews onSubmit={(file) => queue.add([file])} disabled={isBusy} />
+                </TabsContent>
+              </Tabs>
+
+              {queue.items.length > 0 && (
+                <div className="mt-6">
+                  <BatchQueueList
+                    items={queue.items}
+                    activeId={activeItem?.id}
+                    onSelect={queue.setActiveId}
+                    onRemove={queue.remove}
+                    disabled={isBusy}
+                  />
+                </div>
+              )}
+
+              {activeItem?.status === "parsing" && (
+                <div className="flex items-center gap-2 mt-4 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Reading {activeItem.file.name}...
+                </div>
+              )}
+
+              {activeItem?.status === "invalid" && (
+                <Alert variant="destructive" className="mt-4">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Could not read {activeItem.file.name}</AlertTitle>
+                  <AlertDescription>{activeItem.error}</AlertDescription>
+                </Alert>
+              )}
+
+              {activeItem?.table && activePlan && (
+                <div className="mt-6 space-y-2">
+                  {queue.items.length > 1 && <h3 className="text-sm font-medium">{activeItem.file.name}</h3>}
+                  <ImportPreview
+                    table={activeItem.table}
+                    plan={activePlan}
+                    reviewColumn={activeItem.reviewColumn}
+                    onReviewColumnChange={(reviewColumn) => queue.update(activeItem.id, { reviewColumn })}
+                    mapping={activeItem.mapping}
+                    onMappingChange={(mapping) => queue.update(activeItem.id, { mapping })}
+                    options={activeItem.options}
+                    onOptionsChange={(options) => queue.update(activeItem.id, { options })}
+                    disabled={isBusy || activeItem.status === "done"}
+                  />
+                </div>
+              )}
+
+              {activePlan && activePlan.reviews.length > 0 && (
+                <div className="mt-6">
+                  <ChunkedBatchSettings
+                    enabled={isChunkingEnabled(activePlan)}
+                    onEnabledChange={setChunkingChoice}
+                    options={chunkedOptions}
+                    onOptionsChange={setChunkedOptions}
+                    reviewCount={activePlan.reviews.length}
+                    disabled={isBusy}
+                  />
+                </div>
+              )}
+
+              {progress && (
+                <div className="mt-6 space-y-2">
+                  {currentItem && pendingItems.length > 1 && (
+                    <p className="text-sm text-muted-foreground">
+                      File {pendingItems.findIndex((item) => item.id === currentItem.id) + 1} of {pendingItems.length}:{" "}
+                      {currentItem.file.name}
+                    </p>
+                  )}
+                  <BatchProgressPanel
+                    progress={progress}
+                    paused={chunkedBatch.status === "paused" || chunkedBatch.status === "failed"}
+                    onCancel={handleCancel}
+                  />
+                </div>
+              )}
+
+              {isChunking && (
+                <div className="mt-4">
+                  <ChunkedBatchProgress
+                    status={chunkedBatch.status}
+                    chunks={chunkedBatch.chunks}
+                    onPause={chunkedBatch.pause}
+                    onResume={chunkedBatch.resume}
+                    onRetryFailed={chunkedBatch.retryFailed}
+                  />
+                </div>
+              )}
 
               <div className="flex gap-2 mt-6">
                 <Button
                   onClick={handleAnalyze}
-                  disabled={!selectedFile || isAnalyzing}
+                  disabled={pendingItems.length === 0 || isParsing || isBusy}
                   className="bg-blue-600 hover:bg-blue-700 flex-1"
                 >
-                  {isAnalyzing ? (
+                  {isAnalyzing || chunkedBatch.status === "running" ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                       Analyzing Reviews...
@@ -205,14 +496,25 @@ export default function BatchUploadsPage() {
                   ) : (
                     <>
                       <BarChart3 className="mr-2 h-4 w-4" />
-                      Analyze Batch
+                      {pendingItems.length > 1 ? `Analyze ${pendingItems.length} Files` : "Analyze Batch"}
                     </>
                   )}
                 </Button>
-                <Button variant="outline" onClick={handleReset} disabled={isAnalyzing}>
-                  Reset
+                {doneItems.length > 0 && !isBusy && (
+                  <Button variant="outline" onClick={() => setShowResults(true)}>
+                    View Results
+                  </Button>
+                )}
+                <Button variant="outline" onClick={isBusy ? handleCancel : handleReset}>
+                  {isBusy ? "Cancel" : "Reset"}
                 </Button>
               </div>
+
+              {backgroundJobs.length > 0 && (
+                <div className="mt-6">
+                  <BackgroundJobs jobs={backgroundJobs} onForget={batchJobs.forget} />
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -222,15 +524,63 @@ export default function BatchUploadsPage() {
             <div>
               <h2 className="text-2xl font-bold">Analysis Complete</h2>
               <p className="text-muted-foreground">
-                Processed {results.totalProcessed} reviews from {selectedFile?.name}
+                Processed {results.length} reviews from{" "}
+                {viewedItems.length === 1 ? viewedItems[0].file.name : `${viewedItems.length} files`}
               </p>
             </div>
-            <Button onClick={handleReset} variant="outline">
-              Upload New File
-            </Button>
+            <div className="flex gap-2">
+              {doneItems.length > 1 && (
+                <Select
+                  value={String(resultsView)}
+                  onValueChange={(value) => setResultsView(value === ALL_FILES ? ALL_FILES : Number(value))}
+                >
+                  <SelectTrigger className="w-[220px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_FILES}>All files ({doneItems.length})</SelectItem>
+                    {doneItems.map((item) => (
+                      <SelectItem key={item.id} value={String(item.id)}>
+                        {item.file.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {comparableItems.length >= 2 && (
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    router.push(
+                      `/compare?a=history:${comparableItems[0].historyId}&b=history:${comparableItems[1].historyId}`,
+                    )
+                  }
+                >
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  Compare
+                </Button>
+              )}
+              <SentimentSettingsDialog previewItems={results} />
+              <ExportMenu
+                results={results}
+                context={{
+                  fileName: viewedItems.length === 1 ? viewedItems[0].file.name : `combined-${viewedItems.length}-files`,
+                  neutralThreshold,
+                  processedAt: batchResult?.processing_timestamp,
+                }}
+              />
+              <Button onClick={() => setShowResults(false)} variant="outline">
+                Back to Files
+              </Button>
+              <Button onClick={handleReset} variant="outline">
+                Upload New Files
+              </Button>
+            </div>
           </div>
 
-          <ImportedResultsTable results={results?.results || []} totalProcessed={results?.totalProcessed || 0} />
+          <BatchSummaryPanel summary={batchResult?.summary} results={results} neutralThreshold={neutralThreshold} />
+
+          <ImportedResultsTable key={resultsView} results={results} totalProcessed={results.length} />
         </div>
       )}
     </div>
@@ -0,0 +1,289 @@
+/**
+ * My Batches Page
+ *
+ * Lists the batches the logged-in user has analyzed, as stored by the
+ * backend, so a finished batch can be re-opened from any device. Results
+ * are fetched by S3 key and classified with the user's current neutral
+ * threshold.
+ *
+ * Features:
+ * - File name, processing time, review count and model sentiment mix per batch
+ * - Re-open a batch with its summary, table, charts and exports
+ * - Search by file name
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @component
+ */
+
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { BatchSummaryPanel } from "@/components/batch-summary-panel"
+import { ResultsTable } from "@/components/results-table"
+import { ExportMenu } from "@/components/export-menu"
+import { SentimentSettingsDialog } from "@/components/sentiment-settings-dialog"
+import { useAuth } from "@/hooks/use-auth"
+import { useApiErrorHandler } from "@/hooks/use-api-error"
+import { useSentimentSettings } from "@/hooks/use-sentiment-settings"
+import { SentimentAPI, type BatchJob, type BatchResult } from "@/lib/sentiment-api"
+import { classifyPredictions } from "@/lib/sentiment"
+import { isAbortError } from "@/lib/retry"
+import { createLogger } from "@/lib/logger"
+import { ArrowLeft, Layers, Loader2, RefreshCw, Search } from "lucide-react"
+
+const log = createLogger("batches")
+
+/** Stacked bar of a batch's model labels, with the counts as a tooltip. */
+function SentimentMix({ summary }: { summary: BatchJob["summary"] }) {
+  if (!summary || summary.total_reviews === 0) return <span className="text-sm text-muted-foreground">—</span>
+  const segments = [
+    { label: "Positive", count: summary.positive, className: "bg-green-500" },
+    { label: "Negative", count: summary.negative, className: "bg-red-500" },
+    { label: "Neutral", count: summary.neutral, className: "bg-gray-400" },
+  ]
+  const total = segments.reduce((sum, segment) => sum + segment.count, 0) || 1
+
+  return (
+    <div className="space-y-1 min-w-[160px]">
+      <div
+        className="flex h-2 w-full overflow-hidden rounded-full bg-muted"
+        title={segments.map((segment) => `${segment.label}: ${segment.count}`).join(", ")}
+      >
+        {segments.map((segment) => (
+          <div
+            key={segment.label}
+            className={segment.className}
+            style={{ width: `${(segment.count / total) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {segments.map((segment) => `${Math.round((segment.count / total) * 100)}%`).join(" / ")}
+      </div>
+    </div>
+  )
+}
+
+export default function BatchesPage() {
+  const [batches, setBatches] = useState<BatchJob[]>([])
+  const [isLoadingBatches, setIsLoadingBatches] = useState(true)
+  const [search, setSearch] = useState("")
+  // Batch being fetched, then shown
+  const [openingKey, setOpeningKey] = useState<string | null>(null)
+  const [openBatch, setOpenBatch] = useState<BatchResult | null>(null)
+  const { user, isAuthenticated, isLoading } = useAuth()
+  const { neutralThreshold } = useSentimentSettings()
+  const handleApiError = useApiErrorHandler()
+  const router = useRouter()
+  // Controller for the open request, so leaving or opening another batch cancels it
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const loadBatches = useCallback(async () => {
+    if (!user) return
+    setIsLoadingBatches(true)
+    try {
+      setBatches(await SentimentAPI.listBatches())
+    } catch (error) {
+      log.error("Could not load batches", { error })
+      handleApiError(error, "Could not load your batches")
+    } finally {
+      setIsLoadingBatches(false)
+    }
+  }, [user, handleApiError])
+
+  useEffect(() => {
+    loadBatches()
+  }, [loadBatches])
+
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  const filteredBatches = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return query ? batches.filter((batch) => batch.file_name.toLowerCase().includes(query)) : batches
+  }, [batches, search])
+
+  const results = useMemo(
+    () => (openBatch ? classifyPredictions(openBatch.reviews, neutralThreshold) : null),
+    [openBatch, neutralThreshold],
+  )
+
+  const handleOpen = async (batch: BatchJob) => {
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    setOpeningKey(batch.s3_key)
+    try {
+      const result = await SentimentAPI.getBatch(batch.s3_key, { signal: controller.signal })
+      log.info("Batch re-opened", { key: batch.s3_key, count: result.reviews.length })
+      setOpenBatch(result)
+    } catch (error) {
+      if (isAbortError(error)) return
+      log.error("Could not open batch", { key: batch.s3_key, error })
+      handleApiError(error, "Could not open this batch")
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setOpeningKey(null)
+      }
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 flex items-center justify-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto text-center">
+          <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Layers className="h-8 w-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold mb-4">Authentication Required</h1>
+          <p className="text-muted-foreground mb-6">Please log in to view your batches</p>
+          <Button onClick={() => router.push("/login")} className="bg-blue-600 hover:bg-blue-700">
+            Sign In
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (openBatch && results) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold">{openBatch.file_name}</h1>
+            <p className="text-muted-foreground">
+              {results.length} reviews processed {new Date(openBatch.processing_timestamp).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <SentimentSettingsDialog previewItems={results} />
+            <ExportMenu
+              results={results}
+              context={{
+                fileName: openBatch.file_name,
+                neutralThreshold,
+                processedAt: openBatch.processing_timestamp,
+              }}
+            />
+            <Button variant="outline" onClick={() => setOpenBatch(null)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              My Batches
+            </Button>
+          </div>
+        </div>
+
+        <BatchSummaryPanel summary={openBatch.summary} results={results} neutralThreshold={neutralThreshold} />
+
+        <ResultsTable results={results} totalProcessed={results.length} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">My Batches</h1>
+        <p className="text-muted-foreground">Re-open any batch you have analyzed, from any device</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="h-5 w-5" />
+                Finished Batches
+              </CardTitle>
+              <CardDescription>
+                {isLoadingBatches
+                  ? "Loading batches..."
+                  : `Showing ${filteredBatches.length} of ${batches.length} batches`}
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={loadBatches} disabled={isLoadingBatches}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by file name"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+              aria-label="Search batches"
+            />
+          </div>
+
+          {!isLoadingBatches && filteredBatches.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Layers className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{batches.length === 0 ? "No batches analyzed yet" : "No batches match your search"}</p>
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[35%]">File</TableHead>
+                    <TableHead>Processed</TableHead>
+                    <TableHead className="text-right">Reviews</TableHead>
+                    <TableHead>Sentiment mix (model)</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredBatches.map((batch) => (
+                    <TableRow key={batch.s3_key}>
+                      <TableCell className="font-medium">
+                        <div className="max-w-sm truncate" title={batch.s3_key}>
+                          {batch.file_name}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(batch.processing_timestamp).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{batch.total_reviews.toLocaleString()}</TableCell>
+                      <TableCell>
+                        <SentimentMix summary={batch.summary} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleOpen(batch)}
+                          disabled={openingKey !== null}
+                        >
+                          {openingKey === batch.s3_key && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Open
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+/**
+ * Results Table Benchmark Page
+ *
+ * Development-only page that renders the batch results view with a large
+ * generated fixture, so scrolling, sorting and filtering can be profiled
+ * without uploading a file. Disabled when NEXT_PUBLIC_ENVIRONMENT is
+ * "production".
+ *
+ * Features:
+ * - Row count from the `rows` query parameter (default 100,000)
+ * - Deterministic data from a seeded generator
+ * - Generation time and React commit timings for every table update
+ *
+ * Usage: `/benchmark?rows=100000`
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @component
+ */
+
+"use client"
+
+import { Profiler, Suspense, useEffect, useState, useSyncExternalStore, type ProfilerOnRenderCallback } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ResultsTable } from "@/components/results-table"
+import { DEFAULT_BENCHMARK_ROWS, MAX_BENCHMARK_ROWS, generateBenchmarkResults } from "@/lib/benchmark"
+import { createLogger } from "@/lib/logger"
+import type { ClassifiedReview } from "@/lib/sentiment-api"
+import { DEFAULT_NEUTRAL_THRESHOLD } from "@/lib/sentiment"
+import { Gauge, Loader2 } from "lucide-react"
+
+const log = createLogger("benchmark")
+
+const IS_PRODUCTION = process.env.NEXT_PUBLIC_ENVIRONMENT === "production"
+
+interface CommitTiming {
+  phase: string
+  duration: number
+}
+
+/**
+ * Commit timings live outside React state: updating the page from inside the
+ * Profiler callback would re-render the table and record another commit.
+ */
+const commitTimings = (() => {
+  let timings: CommitTiming[] = []
+  const listeners = new Set<() => void>()
+  const notify = () => listeners.forEach((listener) => listener())
+  return {
+    get: () => timings,
+    push: (timing: CommitTiming) => {
+      timings = [timing, ...timings].slice(0, 10)
+      notify()
+    },
+    reset: () => {
+      timings = []
+      notify()
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+})()
+
+const handleRender: ProfilerOnRenderCallback = (_, phase, actualDuration) => {
+  log.debug("Results table commit", { phase, ms: Math.round(actualDuration) })
+  commitTimings.push({ phase, duration: actualDuration })
+}
+
+function CommitTimings() {
+  const timings = useSyncExternalStore(commitTimings.subscribe, commitTimings.get, commitTimings.get)
+  return (
+    <span className="font-mono">
+      {timings.length === 0
+        ? "—"
+        : timings.map((timing) => `${timing.duration.toFixed(1)} ms (${timing.phase})`).join(", ")}
+    </span>
+  )
+}
+
+function parseRowCount(value: string | null): number {
+  const count = Number(value)
+  if (!Number.isInteger(count) || count <= 0) return DEFAULT_BENCHMARK_ROWS
+  return Math.min(count, MAX_BENCHMARK_ROWS)
+}
+
+function BenchmarkView() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const rowCount = parseRowCount(searchParams.get("rows"))
+  const [rowInput, setRowInput] = useState(String(rowCount))
+  const [results, setResults] = useState<ClassifiedReview[] | null>(null)
+  const [generationMs, setGenerationMs] = useState<number | null>(null)
+
+  useEffect(() => {
+    setResults(null)
+    commitTimings.reset()
+    // Let the spinner paint before the synchronous generation blocks the thread
+    const timer = setTimeout(() => {
+      const start = performance.now()
+      const generated = generateBenchmarkResults(rowCount, DEFAULT_NEUTRAL_THRESHOLD)
+      const elapsed = performance.now() - start
+      log.info("Generated benchmark fixture", { rows: rowCount, ms: Math.round(elapsed) })
+      setGenerationMs(elapsed)
+      setResults(generated)
+    }, 50)
+    return () => clearTimeout(timer)
+  }, [rowCount])
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Results Table Benchmark
+          </CardTitle>
+          <CardDescription>
+            Renders {rowCount.toLocaleString()} generated reviews. Scroll, sort and filter below; each table update is
+            timed with the React Profiler.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex items-end gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              router.replace(`/benchmark?rows=${parseRowCount(rowInput)}`)
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="benchmark-rows">Rows</Label>
+              <Input
+                id="benchmark-rows"
+                type="number"
+                min={1}
+                max={MAX_BENCHMARK_ROWS}
+                value={rowInput}
+                onChange={(e) => setRowInput(e.target.value)}
+                className="w-40"
+              />
+            </div>
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700">
+              Generate
+            </Button>
+          </form>
+
+          <div className="grid gap-2 text-sm md:grid-cols-2">
+            <div>
+              <span className="text-muted-foreground">Fixture generation: </span>
+              <span className="font-mono">{generationMs === null ? "—" : `${generationMs.toFixed(0)} ms`}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Recent commits: </span>
+              <CommitTimings />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {results ? (
+        <Profiler id="results-table" onRender={handleRender}>
+          <ResultsTable results={results} totalProcessed={results.length} />
+        </Profiler>
+      ) : (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function BenchmarkPage() {
+  if (IS_PRODUCTION) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center text-muted-foreground">
+        The benchmark page is not available in production builds.
+      </div>
+    )
+  }
+
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      }
+    >
+      <BenchmarkView />
+    </Suspense>
+  )
+}
@@ -0,0 +1,290 @@
+/**
+ * Compare Batches Page
+ *
+ * Puts two batch results side by side, such as last month's reviews and
+ * this month's, or product A and product B. Either side can be a batch
+ * saved in this browser's history or one stored by the backend. The
+ * chosen batches are kept in the URL (`?a=...&b=...`), so a comparison can
+ * be linked to.
+ *
+ * Features:
+ * - Sentiment shares per batch and the change between them
+ * - Chi-square test of whether the shift is statistically significant
+ * - Overlaid confidence distributions
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @component
+ */
+
+"use client"
+
+import { Suspense, useEffect, useMemo, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { BatchComparisonView } from "@/components/batch-comparison"
+import { useAuth } from "@/hooks/use-auth"
+import { useApiErrorHandler } from "@/hooks/use-api-error"
+import { useSentimentSettings } from "@/hooks/use-sentiment-settings"
+import { HistoryStore, type BatchHistoryRecord } from "@/lib/history-store"
+import { SentimentAPI, type BatchJob, type BatchResult } from "@/lib/sentiment-api"
+import { classifyPredictions } from "@/lib/sentiment"
+import { isAbortError } from "@/lib/retry"
+import { createLogger } from "@/lib/logger"
+import { ArrowLeftRight, GitCompare, Loader2 } from "lucide-react"
+
+const log = createLogger("compare")
+
+/**
+ * Where a compared batch comes from, as kept in the URL:
+ * `history:<record id>` or `batch:<S3 key>`.
+ */
+type BatchSourceKey = `history:${string}` | `batch:${string}`
+
+function parseSourceKey(value: string | null): BatchSourceKey | null {
+  return value?.startsWith("history:") || value?.startsWith("batch:") ? (value as BatchSourceKey) : null
+}
+
+/** Loads the batch `key` points to; null while loading or when nothing is chosen. */
+function useSourceBatch(key: BatchSourceKey | null, userId: string | undefined) {
+  const [batch, setBatch] = useState<BatchResult | null>(null)
+  const [isLoadingBatch, setIsLoadingBatch] = useState(false)
+  const handleApiError = useApiErrorHandler()
+
+  useEffect(() => {
+    setBatch(null)
+    setIsLoadingBatch(false)
+    if (!key || !userId) return
+    const controller = new AbortController()
+    setIsLoadingBatch(true)
+
+    const load = async (): Promise<BatchResult> => {
+      if (key.startsWith("batch:")) {
+        return SentimentAPI.getBatch(key.slice("batch:".length), { signal: controller.signal })
+      }
+      const record = await HistoryStore.get(userId, key.slice("history:".length))
+      if (record?.kind !== "batch") throw new Error("This batch is no longer in your history")
+      return record.result
+    }
+
+    load()
+      .then((result) => {
+        if (!controller.signal.aborted) setBatch(result)
+      })
+      .catch((error) => {
+        if (isAbortError(error) || controller.signal.aborted) return
+        log.error("Could not load batch", { key, error })
+        handleApiError(error, "Could not load this batch")
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingBatch(false)
+      })
+    return () => controller.abort()
+  }, [key, userId, handleApiError])
+
+  return { batch, isLoadingBatch }
+}
+
+interface BatchPickerProps {
+  id: string
+  label: string
+  value: BatchSourceKey | null
+  onChange: (value: BatchSourceKey) => void
+  historyRecords: BatchHistoryRecord[]
+  serverBatches: BatchJob[]
+}
+
+function BatchPicker({ id, label, value, onChange, historyRecords, serverBatches }: BatchPickerProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value ?? ""} onValueChange={(next) => onChange(next as BatchSourceKey)}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Choose a batch" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel>History (this browser)</SelectLabel>
+            {historyRecords.length === 0 && (
+              <SelectItem value="history:none" disabled>
+                No saved batches
+              </SelectItem>
+            )}
+            {historyRecords.map((record) => (
+              <SelectItem key={record.id} value={`history:${record.id}`}>
+                {record.input} · {new Date(record.createdAt).toLocaleDateString()}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+          <SelectGroup>
+            <SelectLabel>My Batches (server)</SelectLabel>
+            {serverBatches.length === 0 && (
+              <SelectItem value="batch:none" disabled>
+                No stored batches
+              </SelectItem>
+            )}
+            {serverBatches.map((batch) => (
+              <SelectItem key={batch.s3_key} value={`batch:${batch.s3_key}`}>
+                {batch.file_name} · {new Date(batch.processing_timestamp).toLocaleDateString()}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+function CompareView() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const keyA = parseSourceKey(searchParams.get("a"))
+  const keyB = parseSourceKey(searchParams.get("b"))
+  const [historyRecords, setHistoryRecords] = useState<BatchHistoryRecord[]>([])
+  const [serverBatches, setServerBatches] = useState<BatchJob[]>([])
+  const { user, isAuthenticated, isLoading } = useAuth()
+  const { neutralThreshold } = useSentimentSettings()
+  const sideA = useSourceBatch(keyA, user?.id)
+  const sideB = useSourceBatch(keyB, user?.id)
+
+  // Both lists are optional: either one failing still leaves the other to pick from
+  useEffect(() => {
+    if (!user) return
+    HistoryStore.list(user.id)
+      .then((records) =>
+        setHistoryRecords(records.filter((record): record is BatchHistoryRecord => record.kind === "batch")),
+      )
+      .catch((error) => log.warn("Could not load history", { error }))
+    SentimentAPI.listBatches()
+      .then(setServerBatches)
+      .catch((error) => log.warn("Could not load server batches", { error }))
+  }, [user])
+
+  const setKeys = (a: BatchSourceKey | null, b: BatchSourceKey | null) => {
+    const params = new URLSearchParams()
+    if (a) params.set("a", a)
+    if (b) params.set("b", b)
+    router.replace(`/compare?${params}`)
+  }
+
+  const compared = useMemo(() => {
+    if (!sideA.batch || !sideB.batch) return null
+    return {
+      a: { name: `A: ${sideA.batch.file_name}`, results: classifyPredictions(sideA.batch.reviews, neutralThreshold) },
+      b: { name: `B: ${sideB.batch.file_name}`, results: classifyPredictions(sideB.batch.reviews, neutralThreshold) },
+    }
+  }, [sideA.batch, sideB.batch, neutralThreshold])
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 flex items-center justify-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto text-center">
+          <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
+            <GitCompare className="h-8 w-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold mb-4">Authentication Required</h1>
+          <p className="text-muted-foreground mb-6">Please log in to compare batches</p>
+          <Button onClick={() => router.push("/login")} className="bg-blue-600 hover:bg-blue-700">
+            Sign In
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Compare Batches</h1>
+        <p className="text-muted-foreground">
+          Compare two batches, such as two months of reviews or two products, before drawing conclusions
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Batches
+          </CardTitle>
+          <CardDescription>Pick a batch from your history or from My Batches for each side</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-[1fr_auto_1fr] md:items-end">
+            <BatchPicker
+              id="compare-a"
+              label="Batch A (baseline)"
+              value={keyA}
+              onChange={(key) => setKeys(key, keyB)}
+              historyRecords={historyRecords}
+              serverBatches={serverBatches}
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setKeys(keyB, keyA)}
+              disabled={!keyA && !keyB}
+              aria-label="Swap batches"
+              title="Swap batches"
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+            </Button>
+            <BatchPicker
+              id="compare-b"
+              label="Batch B"
+              value={keyB}
+              onChange={(key) => setKeys(keyA, key)}
+              historyRecords={historyRecords}
+              serverBatches={serverBatches}
+            />
+          </div>
+          {keyA && keyA === keyB && (
+            <p className="mt-4 text-sm text-muted-foreground">Both sides show the same batch.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {(sideA.isLoadingBatch || sideB.isLoadingBatch) && (
+        <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading batches...
+        </div>
+      )}
+
+      {compared && <BatchComparisonView a={compared.a} b={compared.b} neutralThreshold={neutralThreshold} />}
+    </div>
+  )
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      }
+    >
+      <CompareView />
+    </Suspense>
+  )
+}
@@ -0,0 +1,18 @@
+/**
+ * Mock API: GET /health
+ *
+ * Advertises the `async_batch` feature unless MOCK_API_ASYNC_BATCH is
+ * "false", so the client's synchronous fallback can be exercised too.
+ * Only active when NEXT_PUBLIC_USE_MOCK_API is "true" (see lib/mock-backend).
+ */
+
+import { mockRoute } from "@/lib/mock-backend/http"
+
+export const GET = mockRoute(() =>
+  Response.json({
+    message: "Sentiment Analyzer mock API",
+    status: "healthy",
+    version: "mock-1.0.0",
+    features: process.env.MOCK_API_ASYNC_BATCH === "false" ? [] : ["async_batch"],
+  }),
+)
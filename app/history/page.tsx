@@ -0,0 +1,337 @@
+/**
+ * Analysis History Page
+ *
+ * Lists every single-text and batch analysis the logged-in user has run in
+ * this browser. Records come from the IndexedDB history store and are
+ * classified with the user's current neutral threshold.
+ *
+ * Features:
+ * - Full-text search over analyzed text and file names
+ * - Filters by sentiment and date range
+ * - Re-open a past run with its full results
+ * - Delete individual runs
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @component
+ */
+
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { SentimentBadge } from "@/components/sentiment-badge"
+import { HistoryRecordDialog } from "@/components/history-record-dialog"
+import { useAuth } from "@/hooks/use-auth"
+import { useToast } from "@/hooks/use-toast"
+import { useSentimentSettings } from "@/hooks/use-sentiment-settings"
+import { HistoryStore, type HistoryRecord } from "@/lib/history-store"
+import {
+  SENTIMENT_LABELS,
+  classifyPredictions,
+  classifySentiment,
+  countSentiments,
+  dominantSentiment,
+  type SentimentLabel,
+} from "@/lib/sentiment"
+import { createLogger } from "@/lib/logger"
+import { FileText, History, MessageSquare, Search, Trash2 } from "lucide-react"
+
+const log = createLogger("history")
+
+type SentimentFilter = "all" | SentimentLabel
+
+interface HistoryRow {
+  record: HistoryRecord
+  sentiment: SentimentLabel
+  detail: string
+}
+
+// Local calendar date (yyyy-mm-dd) of an ISO timestamp, comparable with <input type="date">
+function toLocalDate(iso: string): string {
+  const date = new Date(iso)
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export default function HistoryPage() {
+  const [records, setRecords] = useState<HistoryRecord[]>([])
+  const [isLoadingHistory, setIsLoadingHistory] = useState(true)
+  const [search, setSearch] = useState("")
+  const [sentimentFilter, setSentimentFilter] = useState<SentimentFilter>("all")
+  const [fromDate, setFromDate] = useState("")
+  const [toDate, setToDate] = useState("")
+  const [openRecord, setOpenRecord] = useState<HistoryRecord | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<HistoryRecord | null>(null)
+  const { user, isAuthenticated, isLoading } = useAuth()
+  const { neutralThreshold } = useSentimentSettings()
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const loadHistory = useCallback(async () => {
+    if (!user) return
+    setIsLoadingHistory(true)
+    try {
+      setRecords(await HistoryStore.list(user.id))
+    } catch (error) {
+      log.error("Could not load history", { error })
+      toast({
+        title: "Error",
+        description: "Could not load your analysis history from this browser.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoadingHistory(false)
+    }
+  }, [user, toast])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  // Each record summarized with the current threshold
+  const rows = useMemo<HistoryRow[]>(
+    () =>
+      records.map((record) => {
+        if (record.kind === "single") {
+          return {
+            record,
+            sentiment: classifySentiment(record.rawLabel, record.result.confidence, neutralThreshold),
+            detail: `${Math.round(record.result.confidence * 100)}% confidence`,
+          }
+        }
+        const counts = countSentiments(classifyPredictions(record.result.reviews, neutralThreshold))
+        return {
+          record,
+          sentiment: dominantSentiment(counts),
+          detail: `${record.result.reviews.length} reviews · ${counts.Positive}/${counts.Negative}/${counts.Neutral}`,
+        }
+      }),
+    [records, neutralThreshold],
+  )
+
+  const filteredRows = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return rows.filter(({ record, sentiment }) => {
+      if (query && !record.input.toLowerCase().includes(query)) return false
+      if (sentimentFilter !== "all" && sentiment !== sentimentFilter) return false
+      const date = toLocalDate(record.createdAt)
+      if (fromDate && date < fromDate) return false
+      if (toDate && date > toDate) return false
+      return true
+    })
+  }, [rows, search, sentimentFilter, fromDate, toDate])
+
+  const handleDelete = async () => {
+    if (!user || !pendingDelete) return
+    try {
+      await HistoryStore.remove(user.id, pendingDelete.id)
+      setRecords((current) => current.filter((record) => record.id !== pendingDelete.id))
+      toast({ title: "Success", description: "Analysis removed from history." })
+    } catch (error) {
+      log.error("Could not delete history record", { error })
+      toast({ title: "Error", description: "Could not delete this analysis.", variant: "destructive" })
+    } finally {
+      setPendingDelete(null)
+    }
+  }
+
+  const clearFilters = () => {
+    setSearch("")
+    setSentimentFilter("all")
+    setFromDate("")
+    setToDate("")
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 flex items-center justify-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto text-center">
+          <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
+            <History className="h-8 w-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold mb-4">Authentication Required</h1>
+          <p className="text-muted-foreground mb-6">Please log in to view your analysis history</p>
+          <Button onClick={() => router.push("/login")} className="bg-blue-600 hover:bg-blue-700">
+            Sign In
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Analysis History</h1>
+        <p className="text-muted-foreground">Search, re-open and manage your past analyses on this device</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Past Runs
+          </CardTitle>
+          <CardDescription>
+            {isLoadingHistory
+              ? "Loading history..."
+              : `Showing ${filteredRows.length} of ${records.length} saved analyses`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Filters */}
+          <div className="grid gap-4 md:grid-cols-[2fr_1fr_1fr_1fr_auto] items-end">
+            <div className="space-y-2">
+              <Label htmlFor="history-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="history-search"
+                  placeholder="Review text or file name"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Sentiment</Label>
+              <Select value={sentimentFilter} onValueChange={(value) => setSentimentFilter(value as SentimentFilter)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sentiments</SelectItem>
+                  {SENTIMENT_LABELS.map((label) => (
+                    <SelectItem key={label} value={label}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="history-from">From</Label>
+              <Input id="history-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="history-to">To</Label>
+              <Input id="history-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <Button variant="ghost" onClick={clearFilters}>
+              Clear
+            </Button>
+          </div>
+
+          {/* Records */}
+          {!isLoadingHistory && filteredRows.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{records.length === 0 ? "No analyses saved yet" : "No analyses match your filters"}</p>
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[10%]">Type</TableHead>
+                    <TableHead className="w-[40%]">Input</TableHead>
+                    <TableHead>Sentiment</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRows.map(({ record, sentiment, detail }) => (
+                    <TableRow key={record.id}>
+                      <TableCell>
+                        <Badge variant="outline" className="gap-1">
+                          {record.kind === "batch" ? (
+                            <FileText className="h-3 w-3" />
+                          ) : (
+                            <MessageSquare className="h-3 w-3" />
+                          )}
+                          {record.kind === "batch" ? "Batch" : "Single"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        <div className="max-w-md truncate" title={record.input}>
+                          {record.input}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <SentimentBadge sentiment={sentiment} />
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{detail}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(record.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right space-x-1">
+                        <Button variant="outline" size="sm" onClick={() => setOpenRecord(record)}>
+                          Open
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setPendingDelete(record)}
+                          aria-label="Delete analysis"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <HistoryRecordDialog record={openRecord} onOpenChange={(open) => !open && setOpenRecord(null)} />
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this analysis?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The saved result will be removed from this browser. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
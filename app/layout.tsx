@@ -6,6 +6,7 @@
  * - Global styling and fonts
  * - Theme provider for dark/light mode
  * - Authentication context
+ * - Background tracking of asynchronous batch jobs
  * - Navigation bar
  * - Toast notifications
  * - Health check monitoring
@@ -21,6 +22,8 @@ import { GeistMono } from "geist/font/mono"
 import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
 import { AuthProvider } from "@/hooks/use-auth"
+import { SentimentSettingsProvider } from "@/hooks/use-sentiment-settings"
+import { BatchJobsProvider } from "@/hooks/use-batch-jobs"
 import { Toaster } from "@/components/ui/toaster"
 import { Navbar } from "@/components/navbar"
 import { HealthCheck } from "@/components/health-check"
@@ -47,6 +50,8 @@ export const metadata: Metadata = {
  * - Font family configuration
  * - Theme provider for dark/light mode switching
  * - Authentication context for user state management
+ * - Per-user sentiment settings (neutral threshold)
+ * - Background tracking of asynchronous batch jobs
  * - Navigation bar across all pages
  * - Health check component for API monitoring
  * - Toast notifications system
@@ -73,14 +78,18 @@ html {
       <body>
         <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
           <AuthProvider>
-            <div className="min-h-screen bg-background">
-              <Navbar />
-              <main>
-                <HealthCheck />
-                {children}
-              </main>
-            </div>
-            <Toaster />
+            <SentimentSettingsProvider>
+              <BatchJobsProvider>
+                <div className="min-h-screen bg-background">
+                  <Navbar />
+                  <main>
+                    <HealthCheck />
+                    {children}
+                  </main>
+                </div>
+                <Toaster />
+              </BatchJobsProvider>
+            </SentimentSettingsProvider>
           </AuthProvider>
         </ThemeProvider>
       </body>
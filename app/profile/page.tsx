@@ -7,15 +7,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Separator } from "@/components/ui/separator"
 import { useAuth } from "@/hooks/use-auth"
-import { useToast } from "@/hooks/use-toast"
+import { useApiErrorHandler } from "@/hooks/use-api-error"
 import { AuthService, type User } from "@/lib/auth"
+import { SentimentSettingsDialog } from "@/components/sentiment-settings-dialog"
 import { UserIcon, Mail, Calendar, LogOut, Settings } from "lucide-react"
 
 export default function ProfilePage() {
   const [profileData, setProfileData] = useState<User | null>(null)
   const [isLoadingProfile, setIsLoadingProfile] = useState(true)
   const { user, isAuthenticated, isLoading, logout } = useAuth()
-  const { toast } = useToast()
+  const handleApiError = useApiErrorHandler()
   const router = useRouter()
 
   useEffect(() => {
@@ -26,14 +27,7 @@ export default function ProfilePage() {
         const profile = await AuthService.getUserProfile()
         setProfileData(profile)
       } catch (error) {
-        toast({
-          title: "Error",
-          description: error instanceof Error ? error.message : "Failed to load profile",
-          variant: "destructive",
-        })
-        if (error instanceof Error && error.message.includes("Session expired")) {
-          router.push("/login")
-        }
+        handleApiError(error, "Failed to load profile")
       } finally {
         setIsLoadingProfile(false)
       }
@@ -42,7 +36,7 @@ export default function ProfilePage() {
     if (!isLoading) {
       fetchProfile()
     }
-  }, [isAuthenticated, isLoading, toast, router])
+  }, [isAuthenticated, isLoading, handleApiError])
 
   const handleLogout = () => {
     logout()
@@ -198,6 +192,16 @@ export default function ProfilePage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <h3 className="font-medium">Neutral Threshold</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Low-confidence predictions below this value are shown as Neutral
+                  </p>
+                </div>
+                <SentimentSettingsDialog />
+              </div>
+
               <div className="flex items-center justify-between p-4 border rounded-lg">
                 <div>
                   <h3 className="font-medium">Sign Out</h3>
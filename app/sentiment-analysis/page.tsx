@@ -16,7 +16,7 @@
 
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
@@ -25,41 +25,18 @@ import { Label } from "@/components/ui/label"
 import { Progress } from "@/components/ui/progress"
 import { useAuth } from "@/hooks/use-auth"
 import { useToast } from "@/hooks/use-toast"
+import { useApiErrorHandler } from "@/hooks/use-api-error"
+import { useSentimentSettings } from "@/hooks/use-sentiment-settings"
 import { SentimentAPI, type SentimentResult } from "@/lib/sentiment-api"
+import { isAbortError } from "@/lib/retry"
+import { classifyPrediction } from "@/lib/sentiment"
+import { HistoryStore } from "@/lib/history-store"
+import { createLogger } from "@/lib/logger"
 import { SentimentBadge } from "@/components/sentiment-badge"
+import { SentimentSettingsDialog } from "@/components/sentiment-settings-dialog"
 import { Loader2, BarChart3, MessageSquare, TrendingUp } from "lucide-react"
 
-/**
- * Sentiment Normalization Function
- * 
- * Normalizes sentiment values from the API and applies confidence-based neutral detection.
- * This function ensures consistent sentiment classification across the application.
- * 
- * Features:
- * - Handles uppercase/lowercase sentiment values
- * - Implements confidence threshold for neutral classification
- * - Supports multiple sentiment value formats
- * 
- * @param sentiment - Raw sentiment value from API (e.g., "POSITIVE", "NEGATIVE")
- * @param confidence - Confidence score from 0-1 (optional)
- * @returns Normalized sentiment: "Positive", "Negative", or "Neutral"
- * 
- * @example
- * normalizeSentiment("POSITIVE", 0.8) // Returns "Positive"
- * normalizeSentiment("POSITIVE", 0.6) // Returns "Neutral" (low confidence)
- */
-const normalizeSentiment = (sentiment: string, confidence?: number): "Positive" | "Negative" | "Neutral" => {
-  const normalized = sentiment?.toLowerCase();
-  
-  // If confidence is low (< 0.7), classify as neutral regardless of sentiment
-  if (confidence !== undefined && confidence < 0.7) {
-    return "Neutral";
-  }
-  
-  if (normalized === "positive" || normalized === "pos") return "Positive";
-  if (normalized === "negative" || normalized === "neg") return "Negative";
-  return "Neutral";
-};
+const log = createLogger("sentiment-analysis")
 
 /**
  * Main Sentiment Analysis Page Component
@@ -70,7 +47,8 @@ const normalizeSentiment = (sentiment: string, confidence?: number): "Positive"
  * State Management:
  * - text: User input text for analysis
  * - isAnalyzing: Loading state during API calls
- * - result: Analysis results from the API
+ * - prediction: Raw model prediction from the API
+ * - result: Prediction classified with the user's neutral threshold
  * 
  * @returns JSX element with the complete sentiment analysis interface
  */
@@ -81,13 +59,27 @@ export default function SentimentAnalysisPage() {
   // Loading state during analysis
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   
-  // Analysis results from API
-  const [result, setResult] = useState<SentimentResult | null>(null)
+  // Raw model prediction from API
+  const [prediction, setPrediction] = useState<SentimentResult | null>(null)
+
+  // Controller for the in-flight request, so Clear can cancel it
+  const abortControllerRef = useRef<AbortController | null>(null)
   
   // Authentication and utility hooks
-  const { isAuthenticated, isLoading } = useAuth()
+  const { user, isAuthenticated, isLoading } = useAuth()
   const { toast } = useToast()
+  const handleApiError = useApiErrorHandler()
   const router = useRouter()
+  const { neutralThreshold } = useSentimentSettings()
+
+  // Classified on render so a threshold change reclassifies the current result
+  const result = useMemo(
+    () => (prediction ? classifyPrediction(prediction, neutralThreshold) : null),
+    [prediction, neutralThreshold],
+  )
+
+  // Cancel any in-flight analysis when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
 
   const handleAnalyze = async () => {
     if (!text.trim()) {
@@ -99,38 +91,41 @@ export default function SentimentAnalysisPage() {
       return
     }
 
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
     setIsAnalyzing(true)
     try {
-      const analysisResult = await SentimentAPI.analyzeSentiment(text.trim())
-      
-      // Apply sentiment normalization with confidence-based neutral detection
-      const normalizedResult = {
-        ...analysisResult,
-        sentiment: normalizeSentiment(analysisResult.sentiment, analysisResult.confidence)
+      const analysisResult = await SentimentAPI.analyzeSentiment(text.trim(), { signal: controller.signal })
+      setPrediction(analysisResult)
+      if (user) {
+        HistoryStore.addSingle(user.id, text.trim(), analysisResult).catch((error) =>
+          log.warn("Could not save analysis to history", { error }),
+        )
       }
-      
-      setResult(normalizedResult)
       toast({
         title: "Success",
         description: "Sentiment analysis completed!",
       })
     } catch (error) {
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Analysis failed",
-        variant: "destructive",
-      })
-      if (error instanceof Error && error.message.includes("Session expired")) {
-        router.push("/login")
-      }
+      // Cancelled by the user; the Clear handler already reset the page
+      if (isAbortError(error)) return
+      handleApiError(error, "Analysis failed")
     } finally {
-      setIsAnalyzing(false)
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setIsAnalyzing(false)
+      }
     }
   }
 
   const handleClear = () => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+    setIsAnalyzing(false)
     setText("")
-    setResult(null)
+    setPrediction(null)
   }
 
   if (isLoading) {
@@ -209,8 +204,8 @@ export default function SentimentAnalysisPage() {
                   </>
                 )}
               </Button>
-              <Button variant="outline" onClick={handleClear} disabled={isAnalyzing}>
-                Clear
+              <Button variant="outline" onClick={handleClear}>
+                {isAnalyzing ? "Cancel" : "Clear"}
               </Button>
             </div>
           </CardContent>
@@ -226,6 +221,7 @@ export default function SentimentAnalysisPage() {
             <CardDescription>
               {result ? "Sentiment analysis results with confidence score" : "Results will appear here after analysis"}
             </CardDescription>
+            <SentimentSettingsDialog previewItems={result ? [result] : []} className="w-fit" />
           </CardHeader>
           <CardContent>
             {result ? (
@@ -236,6 +232,12 @@ export default function SentimentAnalysisPage() {
                     <SentimentBadge sentiment={result.sentiment} className="text-lg px-4 py-2" />
                   </div>
                   <h3 className="text-2xl font-bold mb-2">{result.sentiment} Sentiment</h3>
+                  {result.rawLabel !== result.sentiment && (
+                    <p className="text-sm text-muted-foreground">
+                      Model label: {result.rawLabel} (below the {Math.round(neutralThreshold * 100)}% confidence
+                      threshold)
+                    </p>
+                  )}
                 </div>
 
                 {/* Confidence Score */}
@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useAuth } from "@/hooks/use-auth"
+import { ValidationError } from "@/lib/api-errors"
 import { Loader2 } from "lucide-react"
 
 export default function SignupPage() {
@@ -17,6 +18,7 @@ export default function SignupPage() {
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [isLoading, setIsLoading] = useState(false)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
   const { signup } = useAuth()
   const router = useRouter()
 
@@ -25,12 +27,15 @@ export default function SignupPage() {
     if (!name || !email || !password) return
 
     setIsLoading(true)
+    setFieldErrors({})
     try {
       await signup(name, email, password)
       router.push("/login")
     } catch (error) {
-      // Error is handled by the auth hook
-      console.log("Signup error:", error)
+      // The toast is shown by the auth hook; field problems are also shown inline
+      if (error instanceof ValidationError) {
+        setFieldErrors(error.fieldErrors)
+      }
     } finally {
       setIsLoading(false)
     }
@@ -55,7 +60,9 @@ export default function SignupPage() {
                 onChange={(e) => setName(e.target.value)}
                 required
                 disabled={isLoading}
+                aria-invalid={!!fieldErrors.name}
               />
+              {fieldErrors.name && <p className="text-sm text-destructive">{fieldErrors.name}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
@@ -67,7 +74,9 @@ export default function SignupPage() {
                 onChange={(e) => setEmail(e.target.value)}
                 required
                 disabled={isLoading}
+                aria-invalid={!!fieldErrors.email}
               />
+              {fieldErrors.email && <p className="text-sm text-destructive">{fieldErrors.email}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="password">Password</Label>
@@ -79,7 +88,9 @@ export default function SignupPage() {
                 onChange={(e) => setPassword(e.target.value)}
                 required
                 disabled={isLoading}
+                aria-invalid={!!fieldErrors.password}
               />
+              {fieldErrors.password && <p className="text-sm text-destructive">{fieldErrors.password}</p>}
             </div>
             <Button
               type="submit"
@@ -0,0 +1,64 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import type { TrackedBatchJob } from "@/lib/batch-jobs"
+import { Clock, Loader2, X } from "lucide-react"
+
+interface BackgroundJobsProps {
+  jobs: TrackedBatchJob[]
+  onForget: (jobId: string) => void
+}
+
+/**
+ * Asynchronous jobs submitted earlier that are still running. Their results
+ * are saved to history when they finish, even if this page is closed.
+ */
+export function BackgroundJobs({ jobs, onForget }: BackgroundJobsProps) {
+  if (jobs.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">Running in the background</h3>
+      <ul className="divide-y rounded-md border">
+        {jobs.map((job) => {
+          const percent = job.progress?.total ? (job.progress.processed / job.progress.total) * 100 : undefined
+          return (
+            <li key={job.jobId} className="flex items-center gap-3 p-3">
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="truncate font-medium" title={job.fileName}>
+                  {job.fileName}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Submitted {new Date(job.submittedAt).toLocaleString()}
+                  {job.progress &&
+                    ` · ${job.progress.processed.toLocaleString()} of ${job.progress.total.toLocaleString()} reviews`}
+                </p>
+                {percent !== undefined && <Progress value={percent} className="h-1.5" />}
+              </div>
+              <Badge variant="secondary">
+                {job.status === "queued" ? (
+                  <Clock className="mr-1 h-3 w-3" />
+                ) : (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                )}
+                {job.status === "queued" ? "Queued" : "Processing"}
+              </Badge>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onForget(job.jobId)}
+                aria-label={`Stop tracking ${job.fileName}`}
+                title="Stop tracking"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+"use client"
+
+import { useMemo } from "react"
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { SentimentBadge } from "@/components/sentiment-badge"
+import { SIGNIFICANCE_LEVEL, compareBatches, confidenceOverlay, type SentimentShift } from "@/lib/batch-comparison"
+import type { ClassifiedReview } from "@/lib/sentiment-api"
+import { cn } from "@/lib/utils"
+import { AlertTriangle, BarChart3, FlaskConical } from "lucide-react"
+
+/** One side of the comparison: a batch's name and its classified reviews. */
+export interface ComparedBatch {
+  name: string
+  results: ClassifiedReview[]
+}
+
+interface BatchComparisonViewProps {
+  a: ComparedBatch
+  b: ComparedBatch
+  neutralThreshold: number
+}
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`
+
+// Differences in percentage points, signed so a rise reads as "+"
+const formatPoints = (difference: number) => {
+  const points = (difference * 100).toFixed(1)
+  return difference > 0 ? `+${points} pp` : `${points} pp`
+}
+
+// More positive or less negative reads as an improvement
+function changeTone({ sentiment, difference }: SentimentShift): string | undefined {
+  if (difference === 0) return "text-muted-foreground"
+  if (sentiment === "Neutral") return undefined
+  return difference > 0 === (sentiment === "Positive") ? "text-green-600" : "text-red-600"
+}
+
+const formatPValue = (pValue: number) => (pValue < 0.001 ? "< 0.001" : pValue.toFixed(3))
+
+/**
+ * Side-by-side comparison of two batches: sentiment shares, the change from
+ * A to B, a chi-square test of whether the mix really differs, and the two
+ * confidence distributions overlaid.
+ */
+export function BatchComparisonView({ a, b, neutralThreshold }: BatchComparisonViewProps) {
+  const comparison = useMemo(() => compareBatches(a.results, b.results), [a.results, b.results])
+  const overlay = useMemo(() => confidenceOverlay(a.results, b.results), [a.results, b.results])
+  const chartConfig = useMemo(
+    () =>
+      ({
+        a: { label: a.name, color: "var(--chart-1)" },
+        b: { label: b.name, color: "var(--chart-2)" },
+      }) satisfies ChartConfig,
+    [a.name, b.name],
+  )
+  const distribution = comparison.shifts.map((shift) => ({
+    sentiment: shift.sentiment,
+    a: Math.round(shift.shareA * 1000) / 10,
+    b: Math.round(shift.shareB * 1000) / 10,
+  }))
+  const overlayData = overlay.map((bin) => ({
+    label: bin.label,
+    a: Math.round(bin.a * 1000) / 10,
+    b: Math.round(bin.b * 1000) / 10,
+  }))
+  const { test } = comparison
+  const isSignificant = test !== null && test.pValue < SIGNIFICANCE_LEVEL
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Sentiment Distribution
+          </CardTitle>
+          <CardDescription>
+            Share of each batch&apos;s reviews per sentiment, with predictions below{" "}
+            {Math.round(neutralThreshold * 100)}% confidence counted as Neutral in both
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 lg:grid-cols-2">
+          <ChartContainer config={chartConfig} className="aspect-[4/3] max-h-[280px] w-full">
+            <BarChart data={distribution}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="sentiment" tickLine={false} axisLine={false} />
+              <YAxis unit="%" tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="a" fill="var(--color-a)" radius={4} />
+              <Bar dataKey="b" fill="var(--color-b)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sentiment</TableHead>
+                <TableHead className="text-right">A</TableHead>
+                <TableHead className="text-right">B</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.shifts.map((shift) => (
+                <TableRow key={shift.sentiment}>
+                  <TableCell>
+                    <SentimentBadge sentiment={shift.sentiment} />
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {shift.countA.toLocaleString()}{" "}
+                    <span className="text-muted-foreground">({formatShare(shift.shareA)})</span>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {shift.countB.toLocaleString()}{" "}
+                    <span className="text-muted-foreground">({formatShare(shift.shareB)})</span>
+                  </TableCell>
+                  <TableCell className={cn("text-right tabular-nums", changeTone(shift))}>
+                    {formatPoints(shift.difference)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-medium">
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right tabular-nums">{comparison.totalA.toLocaleString()}</TableCell>
+                <TableCell className="text-right tabular-nums">{comparison.totalB.toLocaleString()}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Is the Shift Significant?
+          </CardTitle>
+          <CardDescription>
+            Chi-square test of whether the sentiment mix differs between the batches, at the{" "}
+            {Math.round(SIGNIFICANCE_LEVEL * 100)}% level
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {test === null ? (
+            <p className="text-sm text-muted-foreground">
+              The test needs reviews in both batches and at least two sentiments between them.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold tabular-nums">{test.statistic.toFixed(2)}</p>
+                  <p className="text-xs text-muted-foreground">χ² statistic</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold tabular-nums">{test.degreesOfFreedom}</p>
+                  <p className="text-xs text-muted-foreground">Degrees of freedom</p>
+                </div>
+                <div>
+                  <p className={cn("text-2xl font-bold tabular-nums", isSignificant && "text-blue-600")}>
+                    {formatPValue(test.pValue)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">p-value</p>
+                </div>
+              </div>
+              <p className="text-sm">
+                {isSignificant
+                  ? "The sentiment mix differs between the batches by more than chance would explain."
+                  : "The difference could be down to chance; it is not enough to conclude that sentiment has shifted."}
+              </p>
+            </>
+          )}
+          {test?.lowExpectedCounts && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Small samples</AlertTitle>
+              <AlertDescription>
+                Some sentiments are too rare in these batches for the chi-square approximation to be reliable. Treat
+                the p-value as a rough guide.
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Confidence Distribution</CardTitle>
+          <CardDescription>Share of each batch&apos;s reviews per confidence band</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="aspect-[3/1] max-h-[280px] w-full">
+            <AreaChart data={overlayData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} interval={0} />
+              <YAxis unit="%" tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Area dataKey="a" type="monotone" fill="var(--color-a)" stroke="var(--color-a)" fillOpacity={0.3} />
+              <Area dataKey="b" type="monotone" fill="var(--color-b)" stroke="var(--color-b)" fillOpacity={0.3} />
+            </AreaChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
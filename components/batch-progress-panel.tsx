@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import {
+  estimateRemainingMs,
+  formatBytes,
+  formatDuration,
+  progressFraction,
+  type BatchPhase,
+  type BatchProgress,
+} from "@/lib/batch-progress"
+import { cn } from "@/lib/utils"
+import { CheckCircle2, Loader2, X } from "lucide-react"
+
+interface BatchProgressPanelProps {
+  progress: BatchProgress
+  paused?: boolean
+  onCancel: () => void
+}
+
+const PHASE_LABELS: Record<BatchPhase, string> = {
+  uploading: "Uploading",
+  processing: "Analyzing",
+}
+
+/**
+ * Phase, progress bar, elapsed time and estimate for a running batch, with
+ * a button that cancels it.
+ */
+export function BatchProgressPanel({ progress, paused, onCancel }: BatchProgressPanelProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Tick once a second so elapsed time and the estimate stay current
+  useEffect(() => {
+    if (paused) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [paused])
+
+  const fraction = progressFraction(progress)
+  const remaining = paused ? undefined : estimateRemainingMs(progress, now)
+  // Phases shown as steps; a chunked job has no separate upload phase
+  const phases: BatchPhase[] = progress.upload ? ["uploading", "processing"] : ["processing"]
+  const currentPhase = phases.indexOf(progress.phase)
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <ol className="flex items-center gap-4 text-sm">
+          {phases.map((phase, position) => (
+            <li
+              key={phase}
+              className={cn(
+                "flex items-center gap-1.5",
+                position > currentPhase && "text-muted-foreground",
+                position === currentPhase && "font-medium",
+              )}
+            >
+              {position < currentPhase ? (
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+              ) : position === currentPhase && !paused ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <span className="h-4 w-4 rounded-full border" />
+              )}
+              {PHASE_LABELS[phase]}
+              {position === currentPhase && paused && " (paused)"}
+            </li>
+          ))}
+        </ol>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          <X className="mr-1 h-4 w-4" />
+          Cancel
+        </Button>
+      </div>
+
+      {fraction === undefined ? (
+        // No measurable progress while the server works on a single request
+        <div className="relative h-2 w-full overflow-hidden rounded-full bg-primary/20">
+          <div className="absolute inset-y-0 w-1/3 rounded-full bg-primary animate-pulse" />
+        </div>
+      ) : (
+        <Progress value={fraction * 100} />
+      )}
+
+      <div className="flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {progress.phase === "uploading" && progress.upload
+            ? `${formatBytes(progress.upload.loaded)}${progress.upload.total ? ` of ${formatBytes(progress.upload.total)}` : ""}`
+            : progress.tracksReviews
+              ? `${progress.completedReviews.toLocaleString()} of ${progress.totalReviews.toLocaleString()} reviews`
+              : `Waiting for the server to analyze ${progress.totalReviews.toLocaleString()} reviews`}
+        </span>
+        <span>
+          Elapsed {formatDuration(now - progress.startedAt)}
+          {remaining !== undefined && ` · About ${formatDuration(remaining)} left`}
+        </span>
+      </div>
+    </div>
+  )
+}
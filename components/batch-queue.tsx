@@ -0,0 +1,95 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { QueueItem, QueueItemStatus } from "@/hooks/use-batch-queue"
+import { formatBytes } from "@/lib/batch-progress"
+import { cn } from "@/lib/utils"
+import { AlertTriangle, CheckCircle2, Clock, File, Loader2, X } from "lucide-react"
+
+interface BatchQueueListProps {
+  items: QueueItem[]
+  activeId: number | undefined
+  onSelect: (id: number) => void
+  onRemove: (id: number) => void
+  disabled?: boolean
+}
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  parsing: "Reading",
+  invalid: "Unreadable",
+  queued: "Queued",
+  uploading: "Uploading",
+  processing: "Processing",
+  done: "Done",
+  failed: "Failed",
+}
+
+function StatusBadge({ status }: { status: QueueItemStatus }) {
+  const Icon =
+    status === "done"
+      ? CheckCircle2
+      : status === "failed" || status === "invalid"
+        ? AlertTriangle
+        : status === "queued"
+          ? Clock
+          : Loader2
+  return (
+    <Badge
+      variant={status === "failed" || status === "invalid" ? "destructive" : "secondary"}
+      className={cn(status === "done" && "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300")}
+    >
+      <Icon className={cn("mr-1 h-3 w-3", Icon === Loader2 && "animate-spin")} />
+      {STATUS_LABELS[status]}
+    </Badge>
+  )
+}
+
+/**
+ * Files waiting for or going through analysis. Selecting a file shows its
+ * preview and column settings.
+ */
+export function BatchQueueList({ items, activeId, onSelect, onRemove, disabled }: BatchQueueListProps) {
+  return (
+    <ul className="divide-y rounded-md border">
+      {items.map((item) => (
+        <li
+          key={item.id}
+          className={cn(
+            "flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/50",
+            item.id === activeId && "bg-muted",
+          )}
+          onClick={() => onSelect(item.id)}
+          aria-current={item.id === activeId}
+        >
+          <File className="h-6 w-6 shrink-0 text-blue-600" />
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-medium" title={item.file.name}>
+              {item.file.name}
+            </p>
+            <p className="truncate text-xs text-muted-foreground">
+              {formatBytes(item.file.size)}
+              {item.table && ` · ${item.table.rows.length.toLocaleString()} rows`}
+              {item.result && ` · ${item.result.reviews.length.toLocaleString()} analyzed`}
+              {item.error && <span className="text-red-600"> · {item.error}</span>}
+            </p>
+          </div>
+          <StatusBadge status={item.status} />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={(event) => {
+              event.stopPropagation()
+              onRemove(item.id)
+            }}
+            disabled={disabled}
+            aria-label={`Remove ${item.file.name}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  )
+}
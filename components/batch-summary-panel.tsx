@@ -0,0 +1,134 @@
+"use client"
+
+import { useMemo } from "react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { SentimentBadge } from "@/components/sentiment-badge"
+import type { BatchResult, ClassifiedReview } from "@/lib/sentiment-api"
+import { SENTIMENT_LABELS, countSentiments, type SentimentCounts } from "@/lib/sentiment"
+import { cn } from "@/lib/utils"
+import { AlertTriangle, Scale } from "lucide-react"
+
+interface BatchSummaryPanelProps {
+  summary: BatchResult["summary"]
+  results: ClassifiedReview[]
+  neutralThreshold: number
+}
+
+const formatPercent = (count: number, total: number) => (total === 0 ? "0%" : `${((count / total) * 100).toFixed(1)}%`)
+
+const PERCENTAGE_KEYS = {
+  Positive: "positive_percentage",
+  Negative: "negative_percentage",
+  Neutral: "neutral_percentage",
+} as const
+
+/**
+ * The batch's sentiment split as the model returned it next to the split
+ * shown in the table, after low-confidence predictions are moved to
+ * Neutral. The model column uses the server's `summary` when it sent one,
+ * and a warning appears when its total disagrees with the rows received.
+ * The change is counted from the rows received alone, so it shows only the
+ * effect of the threshold, never a gap between summary and rows.
+ */
+export function BatchSummaryPanel({ summary, results, neutralThreshold }: BatchSummaryPanelProps) {
+  // Model labels of the rows received
+  const received = useMemo(() => countSentiments(results.map((result) => ({ sentiment: result.rawLabel }))), [results])
+  const model = useMemo((): { counts: SentimentCounts; total: number } => {
+    if (summary) {
+      return {
+        counts: { Positive: summary.positive, Negative: summary.negative, Neutral: summary.neutral },
+        total: summary.total_reviews,
+      }
+    }
+    return { counts: received, total: results.length }
+  }, [summary, received, results.length])
+  const adjusted = useMemo(() => countSentiments(results), [results])
+  const moved = useMemo(() => results.filter((result) => result.rawLabel !== result.sentiment).length, [results])
+  const isMismatched = summary !== undefined && summary.total_reviews !== results.length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Sentiment Summary
+        </CardTitle>
+        <CardDescription>
+          Predictions below {Math.round(neutralThreshold * 100)}% confidence are shown as Neutral.{" "}
+          {moved === 0
+            ? "No prediction was below it, so both columns agree."
+            : `${moved.toLocaleString()} review${moved === 1 ? "" : "s"} the model labeled Positive or Negative ${moved === 1 ? "is" : "are"} counted as Neutral in the table and charts.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isMismatched && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Review count mismatch</AlertTitle>
+            <AlertDescription>
+              The server reports {summary.total_reviews.toLocaleString()} reviews, but {results.length.toLocaleString()}{" "}
+              were received. The model column reflects the server&apos;s counts; the table and the change column
+              only cover the rows received.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Sentiment</TableHead>
+              <TableHead className="text-right">Model{summary ? " (server)" : ""}</TableHead>
+              <TableHead className="text-right">After threshold</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {SENTIMENT_LABELS.map((label) => {
+              const change = adjusted[label] - received[label]
+              // The server's own percentage when it sent one
+              const serverPercent = summary?.[PERCENTAGE_KEYS[label]]
+              return (
+                <TableRow key={label}>
+                  <TableCell>
+                    <SentimentBadge sentiment={label} />
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {model.counts[label].toLocaleString()}{" "}
+                    <span className="text-muted-foreground">
+                      ({serverPercent !== undefined
+                        ? `${serverPercent.toFixed(1)}%`
+                        : formatPercent(model.counts[label], model.total)})
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {adjusted[label].toLocaleString()}{" "}
+                    <span className="text-muted-foreground">({formatPercent(adjusted[label], results.length)})</span>
+                  </TableCell>
+                  <TableCell className={cn("text-right tabular-nums", change === 0 && "text-muted-foreground")}>
+                    {change > 0 ? `+${change.toLocaleString()}` : change.toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+            <TableRow className="font-medium">
+              <TableCell>Total</TableCell>
+              <TableCell className={cn("text-right tabular-nums", isMismatched && "text-red-600")}>
+                {model.total.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{results.length.toLocaleString()}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        {!summary && (
+          <p className="text-xs text-muted-foreground">
+            The server sent no summary for this batch, so model counts are taken from the reviews received.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,214 @@
+"use client"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import type { ChunkedBatchStatus } from "@/hooks/use-chunked-batch"
+import {
+  CHUNK_SIZES,
+  MAX_CONCURRENCY,
+  type BatchChunk,
+  type ChunkStatus,
+  type ChunkTransport,
+  type ChunkedBatchOptions,
+} from "@/lib/chunked-batch"
+import { cn } from "@/lib/utils"
+import { AlertTriangle, Layers, Pause, Play, RotateCcw } from "lucide-react"
+
+interface ChunkedBatchSettingsProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  options: ChunkedBatchOptions
+  onOptionsChange: (options: ChunkedBatchOptions) => void
+  reviewCount: number
+  disabled?: boolean
+}
+
+const TRANSPORT_LABELS: Record<ChunkTransport, string> = {
+  batch: "Batch upload per chunk",
+  single: "One request per review",
+}
+
+/** Switch and settings for splitting a large file into chunks. */
+export function ChunkedBatchSettings({
+  enabled,
+  onEnabledChange,
+  options,
+  onOptionsChange,
+  reviewCount,
+  disabled,
+}: ChunkedBatchSettingsProps) {
+  const chunkCount = Math.ceil(reviewCount / options.chunkSize)
+
+  return (
+    <div className="rounded-md border p-4 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="chunked-batch" className="flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Process in chunks
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            {enabled
+              ? `${reviewCount.toLocaleString()} reviews in ${chunkCount.toLocaleString()} chunk${chunkCount === 1 ? "" : "s"}. Chunks can be paused and retried.`
+              : "Send the whole file in one request."}
+          </p>
+        </div>
+        <Switch id="chunked-batch" checked={enabled} onCheckedChange={onEnabledChange} disabled={disabled} />
+      </div>
+
+      {enabled && (
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Reviews per chunk</Label>
+            <Select
+              value={String(options.chunkSize)}
+              onValueChange={(value) => onOptionsChange({ ...options, chunkSize: Number(value) })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHUNK_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Parallel requests</Label>
+            <Select
+              value={String(options.concurrency)}
+              onValueChange={(value) => onOptionsChange({ ...options, concurrency: Number(value) })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_CONCURRENCY }, (_, position) => position + 1).map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Send as</Label>
+            <Select
+              value={options.transport}
+              onValueChange={(value) => onOptionsChange({ ...options, transport: value as ChunkTransport })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TRANSPORT_LABELS) as ChunkTransport[]).map((transport) => (
+                  <SelectItem key={transport} value={transport}>
+                    {TRANSPORT_LABELS[transport]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ChunkedBatchProgressProps {
+  status: ChunkedBatchStatus
+  chunks: BatchChunk[]
+  onPause: () => void
+  onResume: () => void
+  onRetryFailed: () => void
+}
+
+const CHUNK_CLASSES: Record<ChunkStatus, string> = {
+  pending: "bg-muted",
+  running: "bg-blue-500 animate-pulse",
+  done: "bg-green-500",
+  failed: "bg-red-500",
+}
+
+// Failed chunks listed with their error; the count covers all of them
+const MAX_LISTED_FAILURES = 5
+
+/**
+ * Per-chunk status of a chunked batch, with pause and retry. Overall
+ * progress is shown by `BatchProgressPanel`.
+ */
+export function ChunkedBatchProgress({ status, chunks, onPause, onResume, onRetryFailed }: ChunkedBatchProgressProps) {
+  const count = (chunkStatus: ChunkStatus) => chunks.filter((chunk) => chunk.status === chunkStatus).length
+  const failed = chunks.filter((chunk) => chunk.status === "failed")
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="secondary">{count("done")} done</Badge>
+        <Badge variant="secondary">{count("running")} running</Badge>
+        <Badge variant="secondary">{count("pending")} queued</Badge>
+        {failed.length > 0 && <Badge variant="destructive">{failed.length} failed</Badge>}
+      </div>
+
+      <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto" aria-label="Chunk status">
+        {chunks.map((chunk) => (
+          <div
+            key={chunk.id}
+            className={cn("h-3 w-3 rounded-sm", CHUNK_CLASSES[chunk.status])}
+            title={`Chunk ${chunk.id + 1}: reviews ${chunk.start + 1}–${chunk.end}, ${chunk.status}${chunk.error ? ` (${chunk.error})` : ""}`}
+          />
+        ))}
+      </div>
+
+      {status === "failed" && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {failed.length} chunk{failed.length === 1 ? "" : "s"} failed
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc list-inside">
+              {failed.slice(0, MAX_LISTED_FAILURES).map((chunk) => (
+                <li key={chunk.id}>
+                  Reviews {chunk.start + 1}–{chunk.end}: {chunk.error}
+                </li>
+              ))}
+            </ul>
+            {failed.length > MAX_LISTED_FAILURES && <p>and {failed.length - MAX_LISTED_FAILURES} more</p>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2">
+        {status === "running" && (
+          <Button variant="outline" size="sm" onClick={onPause}>
+            <Pause className="mr-1 h-4 w-4" />
+            Pause
+          </Button>
+        )}
+        {status === "paused" && (
+          <Button variant="outline" size="sm" onClick={onResume}>
+            <Play className="mr-1 h-4 w-4" />
+            Resume
+          </Button>
+        )}
+        {failed.length > 0 && (
+          <Button variant="outline" size="sm" onClick={onRetryFailed}>
+            <RotateCcw className="mr-1 h-4 w-4" />
+            Retry failed chunks
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/hooks/use-toast"
+import { exportResults, type ExportContext, type ExportFormat } from "@/lib/export"
+import { createLogger } from "@/lib/logger"
+import type { ClassifiedReview } from "@/lib/sentiment-api"
+import { Download, FileJson, FileSpreadsheet, FileText, Loader2, Table } from "lucide-react"
+
+const log = createLogger("export")
+
+interface ExportMenuProps {
+  results: ClassifiedReview[]
+  context: ExportContext
+  disabled?: boolean
+}
+
+const FORMATS: { format: ExportFormat; label: string; icon: typeof Download }[] = [
+  { format: "csv", label: "CSV", icon: Table },
+  { format: "json", label: "JSON", icon: FileJson },
+  { format: "xlsx", label: "Excel workbook (XLSX)", icon: FileSpreadsheet },
+  { format: "pdf", label: "PDF report", icon: FileText },
+]
+
+export function ExportMenu({ results, context, disabled }: ExportMenuProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
+  const { toast } = useToast()
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format)
+    try {
+      await exportResults(results, format, context)
+    } catch (error) {
+      log.error("Export failed", { format, error })
+      toast({
+        title: "Export failed",
+        description: `Could not generate the ${format.toUpperCase()} file.`,
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || results.length === 0 || exporting !== null}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export {results.length} results</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMATS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            <Icon className="mr-2 h-4 w-4" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -1,50 +1,115 @@
 "use client"
 
 import { useCallback, useState } from "react"
-import { useDropzone } from "react-dropzone"
+import { ErrorCode, useDropzone, type Accept, type FileRejection } from "react-dropzone"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { formatBytes } from "@/lib/batch-progress"
+import { MAX_REVIEW_FILE_SIZE, REVIEW_FILE_ACCEPT } from "@/lib/review-formats"
 import { cn } from "@/lib/utils"
-import { Upload, File, X } from "lucide-react"
+import { AlertTriangle, Upload, File, X } from "lucide-react"
 
+/**
+ * @property onFileSelect - Single-file mode: receives the chosen file, or
+ *   null when it is removed
+ * @property multiple - Accept several files at once; they are passed to
+ *   `onFilesSelect` and the drop zone stays visible for more
+ * @property accept - MIME types and extensions allowed, as react-dropzone
+ *   expects them; defaults to the review file formats
+ * @property formatLabel - How the accepted formats are described to the user
+ * @property maxSize - Largest file accepted, in bytes
+ * @property maxFiles - Most files accepted in one drop; 0 allows any number
+ */
 interface FileUploadProps {
-  onFileSelect: (file: File | null) => void
-  selectedFile: File | null
+  onFileSelect?: (file: File | null) => void
+  selectedFile?: File | null
+  multiple?: boolean
+  onFilesSelect?: (files: File[]) => void
   disabled?: boolean
+  accept?: Accept
+  formatLabel?: string
+  maxSize?: number
+  maxFiles?: number
 }
 
-export function FileUpload({ onFileSelect, selectedFile, disabled }: FileUploadProps) {
+// Rejected files listed in the drop zone; the title counts all of them
+const MAX_LISTED_REJECTIONS = 5
+
+export function FileUpload({
+  onFileSelect,
+  selectedFile,
+  multiple = false,
+  onFilesSelect,
+  disabled,
+  accept = REVIEW_FILE_ACCEPT,
+  formatLabel = "CSV, TSV, JSON Lines, Excel and plain text",
+  maxSize = MAX_REVIEW_FILE_SIZE,
+  maxFiles = 0,
+}: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false)
+  // Files turned away by the last drop, with the reasons shown to the user
+  const [rejections, setRejections] = useState<FileRejection[]>([])
+  const { toast } = useToast()
+
+  const describeRejection = useCallback(
+    ({ file, errors }: FileRejection): string => {
+      // Too many files rejects the whole drop; the reason is the same for every file
+      const error = errors.find((candidate) => candidate.code !== ErrorCode.TooManyFiles) ?? errors[0]
+      switch (error?.code) {
+        case ErrorCode.FileInvalidType:
+          return `Unsupported file type. Use ${formatLabel}.`
+        case ErrorCode.FileTooLarge:
+          return `${formatBytes(file.size)} is over the ${formatBytes(maxSize)} limit.`
+        case ErrorCode.FileTooSmall:
+          return "The file is empty."
+        case ErrorCode.TooManyFiles:
+          return `Too many files. Add at most ${maxFiles} at a time.`
+        default:
+          return error?.message ?? "The file could not be added."
+      }
+    },
+    [formatLabel, maxSize, maxFiles],
+  )
 
   const onDrop = useCallback(
-    (acceptedFiles: File[]) => {
+    (acceptedFiles: File[], fileRejections: FileRejection[]) => {
+      setRejections(fileRejections)
+      if (fileRejections.length > 0) {
+        toast({
+          title: "Error",
+          description:
+            fileRejections.length === 1
+              ? `${fileRejections[0].file.name}: ${describeRejection(fileRejections[0])}`
+              : `${fileRejections.length} files were not added. ${describeRejection(fileRejections[0])}`,
+          variant: "destructive",
+        })
+      }
       if (acceptedFiles.length > 0) {
-        const file = acceptedFiles[0]
-        if (file.type === "text/csv" || file.name.endsWith(".csv")) {
-          onFileSelect(file)
-        } else {
-          // Handle invalid file type
-          alert("Please select a CSV file")
-        }
+        if (multiple) onFilesSelect?.(acceptedFiles)
+        else onFileSelect?.(acceptedFiles[0])
       }
       setDragActive(false)
     },
-    [onFileSelect],
+    [multiple, onFileSelect, onFilesSelect, describeRejection, toast],
   )
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      "text/csv": [".csv"],
-    },
-    multiple: false,
+    accept,
+    // Empty files have no reviews; rejecting them here explains why sooner
+    minSize: 1,
+    maxSize,
+    maxFiles: multiple ? maxFiles : 0,
+    multiple,
     disabled,
     onDragEnter: () => setDragActive(true),
     onDragLeave: () => setDragActive(false),
   })
 
   const removeFile = () => {
-    onFileSelect(null)
+    onFileSelect?.(null)
   }
 
   return (
@@ -64,15 +129,22 @@ export function FileUpload({ onFileSelect, selectedFile, disabled }: FileUploadP
             <input {...getInputProps()} />
             <Upload className={cn("h-12 w-12 mb-4", isDragActive ? "text-blue-500" : "text-muted-foreground")} />
             <div className="text-center">
-              <p className="text-lg font-medium mb-2">{isDragActive ? "Drop your CSV file here" : "Upload CSV File"}</p>
-              <p className="text-sm text-muted-foreground mb-4">Drag and drop your CSV file here, or click to browse</p>
+              <p className="text-lg font-medium mb-2">
+                {isDragActive
+                  ? `Drop your review ${multiple ? "files" : "file"} here`
+                  : `Upload Review ${multiple ? "Files" : "File"}`}
+              </p>
+              <p className="text-sm text-muted-foreground mb-4">
+                Drag and drop your review {multiple ? "files" : "file"} here, or click to browse
+              </p>
               <Button variant="outline" disabled={disabled}>
-                Choose File
+                {multiple ? "Choose Files" : "Choose File"}
               </Button>
             </div>
             <div className="mt-4 text-xs text-muted-foreground text-center">
-              <p>Supported format: CSV files only</p>
-              <p>Maximum file size: 10MB</p>
+              <p>Supported formats: {formatLabel}</p>
+              <p>Maximum file size: {formatBytes(maxSize)}</p>
+              {multiple && maxFiles > 0 && <p>Up to {maxFiles} files at a time</p>}
             </div>
           </CardContent>
         </Card>
@@ -92,6 +164,36 @@ export function FileUpload({ onFileSelect, selectedFile, disabled }: FileUploadP
           </CardContent>
         </Card>
       )}
+
+      {rejections.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle className="flex items-center justify-between gap-2">
+            {rejections.length === 1 ? "1 file was not added" : `${rejections.length} files were not added`}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setRejections([])}
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc list-inside">
+              {rejections.slice(0, MAX_LISTED_REJECTIONS).map((rejection, position) => (
+                <li key={`${rejection.file.name}-${position}`}>
+                  <span className="font-medium">{rejection.file.name}</span>: {describeRejection(rejection)}
+                </li>
+              ))}
+            </ul>
+            {rejections.length > MAX_LISTED_REJECTIONS && (
+              <p>and {rejections.length - MAX_LISTED_REJECTIONS} more</p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
     </div>
   )
 }
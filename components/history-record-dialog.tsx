@@ -0,0 +1,82 @@
+"use client"
+
+import { useMemo } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { SentimentBadge } from "@/components/sentiment-badge"
+import { ResultsTable } from "@/components/results-table"
+import { ExportMenu } from "@/components/export-menu"
+import { useSentimentSettings } from "@/hooks/use-sentiment-settings"
+import type { HistoryRecord } from "@/lib/history-store"
+import { classifyPrediction, classifyPredictions } from "@/lib/sentiment"
+
+interface HistoryRecordDialogProps {
+  record: HistoryRecord | null
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Re-opens a saved analysis. Results are classified with the user's current
+ * neutral threshold, so they match what a fresh run would show.
+ */
+export function HistoryRecordDialog({ record, onOpenChange }: HistoryRecordDialogProps) {
+  const { neutralThreshold } = useSentimentSettings()
+
+  const single = useMemo(
+    () => (record?.kind === "single" ? classifyPrediction(record.result, neutralThreshold) : null),
+    [record, neutralThreshold],
+  )
+  const reviews = useMemo(
+    () => (record?.kind === "batch" ? classifyPredictions(record.result.reviews, neutralThreshold) : []),
+    [record, neutralThreshold],
+  )
+
+  return (
+    <Dialog open={record !== null} onOpenChange={onOpenChange}>
+      <DialogContent className={record?.kind === "batch" ? "sm:max-w-5xl max-h-[90vh] overflow-y-auto" : "sm:max-w-lg"}>
+        {record && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{record.kind === "batch" ? record.input : "Single Review Analysis"}</DialogTitle>
+              <DialogDescription>Analyzed on {new Date(record.createdAt).toLocaleString()}</DialogDescription>
+            </DialogHeader>
+
+            {single && (
+              <div className="space-y-4">
+                <div className="p-4 rounded-lg bg-muted/50 text-sm whitespace-pre-wrap break-words">{record.input}</div>
+                <div className="flex items-center gap-3">
+                  <SentimentBadge sentiment={single.sentiment} className="text-base px-3 py-1" />
+                  {single.rawLabel !== single.sentiment && (
+                    <span className="text-sm text-muted-foreground">Model label: {single.rawLabel}</span>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <Label className="text-sm font-medium">Confidence Score</Label>
+                    <span className="text-sm font-bold">{Math.round(single.confidence * 100)}%</span>
+                  </div>
+                  <Progress value={single.confidence * 100} className="h-3" />
+                </div>
+              </div>
+            )}
+
+            {record.kind === "batch" && (
+              <div className="space-y-4">
+                <ExportMenu
+                  results={reviews}
+                  context={{
+                    fileName: record.input,
+                    neutralThreshold,
+                    processedAt: record.result.processing_timestamp,
+                  }}
+                />
+                <ResultsTable results={reviews} totalProcessed={reviews.length} />
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
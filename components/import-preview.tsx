@@ -0,0 +1,296 @@
+"use client"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { CsvDelimiter } from "@/lib/csv"
+import { REVIEW_FILE_FORMAT_LABELS } from "@/lib/review-formats"
+import {
+  COLUMN_ROLES,
+  COLUMN_ROLE_LABELS,
+  MAX_REVIEW_LENGTH,
+  PREVIEW_ROW_COUNT,
+  type ColumnMapping,
+  type ColumnRole,
+  type ImportIssueKind,
+  type ImportOptions,
+  type ImportPlan,
+  type ImportedTable,
+} from "@/lib/review-import"
+import { cn } from "@/lib/utils"
+import { AlertTriangle, ChevronDown, FileCheck } from "lucide-react"
+
+interface ImportPreviewProps {
+  table: ImportedTable
+  plan: ImportPlan
+  reviewColumn: number
+  onReviewColumnChange: (column: number) => void
+  mapping: ColumnMapping
+  onMappingChange: (mapping: ColumnMapping) => void
+  options: ImportOptions
+  onOptionsChange: (options: ImportOptions) => void
+  disabled?: boolean
+}
+
+const DELIMITER_NAMES: Record<CsvDelimiter, string> = {
+  ",": "comma",
+  ";": "semicolon",
+  "\t": "tab",
+  "|": "pipe",
+}
+
+const ISSUE_LABELS: Record<ImportIssueKind, string> = {
+  empty: "Empty rows (skipped)",
+  duplicate: "Duplicate reviews",
+  too_long: `Over ${MAX_REVIEW_LENGTH.toLocaleString()} characters`,
+  encoding: "Possible encoding problems",
+  column_count: "Rows with a different number of fields than the header",
+  invalid_date: "Dates that could not be read",
+  invalid_rating: "Ratings that are not numbers",
+}
+
+// Select value for an unmapped role; Radix Select does not allow ""
+const UNMAPPED = "none"
+
+// Issues listed individually; the counts above always cover all of them
+const MAX_LISTED_ISSUES = 100
+
+/**
+ * Shows a parsed file before upload: the first rows, the review column and
+ * metadata role pickers, and the problems found in the data.
+ */
+export function ImportPreview({
+  table,
+  plan,
+  reviewColumn,
+  onReviewColumnChange,
+  mapping,
+  onMappingChange,
+  options,
+  onOptionsChange,
+  disabled,
+}: ImportPreviewProps) {
+  const previewRows = table.rows.slice(0, PREVIEW_ROW_COUNT)
+  const issueKinds = (Object.keys(ISSUE_LABELS) as ImportIssueKind[]).filter((kind) => plan.issueCounts[kind] > 0)
+
+  const columnBadge = (column: number): string | undefined => {
+    if (column === reviewColumn) return "Review"
+    const role = COLUMN_ROLES.find((candidate) => mapping[candidate] === column)
+    return role && COLUMN_ROLE_LABELS[role]
+  }
+
+  const setRole = (role: ColumnRole, value: string) => {
+    const next = { ...mapping }
+    if (value === UNMAPPED) delete next[role]
+    else next[role] = Number(value)
+    onMappingChange(next)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="secondary">{table.rows.length.toLocaleString()} rows</Badge>
+        <Badge variant="secondary">
+          {table.headers.length} column{table.headers.length === 1 ? "" : "s"}
+        </Badge>
+        <Badge variant="secondary">
+          {table.delimiter ? `${DELIMITER_NAMES[table.delimiter]}-separated` : REVIEW_FILE_FORMAT_LABELS[table.format]}
+        </Badge>
+        {table.encoding && <Badge variant="secondary">{table.encoding.toUpperCase()}</Badge>}
+      </div>
+
+      {table.encodingFallback && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Not a UTF-8 file</AlertTitle>
+          <AlertDescription>
+            The file was read as Windows-1252. Check that accented characters look right in the preview, or re-save the
+            file as UTF-8.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label>Review text column</Label>
+        <Select
+          value={String(reviewColumn)}
+          onValueChange={(value) => {
+            const column = Number(value)
+            onReviewColumnChange(column)
+            // A column is either the review text or metadata, not both
+            const role = COLUMN_ROLES.find((candidate) => mapping[candidate] === column)
+            if (role) setRole(role, UNMAPPED)
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {table.headers.map((header, column) => (
+              <SelectItem key={column} value={String(column)}>
+                {header}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Other columns</Label>
+        <p className="text-xs text-muted-foreground">
+          Mapped columns are kept with each result, so you can filter and export by them.
+        </p>
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+          {COLUMN_ROLES.map((role) => (
+            <div key={role} className="space-y-1">
+              <Label className="text-xs text-muted-foreground">{COLUMN_ROLE_LABELS[role]}</Label>
+              <Select
+                value={mapping[role] === undefined ? UNMAPPED : String(mapping[role])}
+                onValueChange={(value) => setRole(role, value)}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED}>Not used</SelectItem>
+                  {table.headers.map((header, column) =>
+                    column === reviewColumn ? null : (
+                      <SelectItem key={column} value={String(column)}>
+                        {header}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              {table.headers.map((header, column) => (
+                <TableHead
+                  key={column}
+                  className={cn(column === reviewColumn && "bg-blue-50 text-blue-700 dark:bg-blue-950/30 dark:text-blue-300")}
+                >
+                  {header}
+                  {columnBadge(column) && (
+                    <Badge variant="outline" className="ml-2 text-[10px]">
+                      {columnBadge(column)}
+                    </Badge>
+                  )}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {previewRows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                <TableCell className="font-mono text-muted-foreground">{rowIndex + 1}</TableCell>
+                {table.headers.map((_, column) => (
+                  <TableCell
+                    key={column}
+                    className={cn(column === reviewColumn && "bg-blue-50/50 dark:bg-blue-950/20")}
+                  >
+                    <div className="max-w-xs truncate" title={row[column]}>
+                      {row[column]}
+                    </div>
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {table.rows.length > PREVIEW_ROW_COUNT && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {PREVIEW_ROW_COUNT} of {table.rows.length.toLocaleString()} rows.
+        </p>
+      )}
+
+      {/* Validation */}
+      {issueKinds.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Check your data</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <ul className="list-disc list-inside">
+              {issueKinds.map((kind) => (
+                <li key={kind}>
+                  {ISSUE_LABELS[kind]}: {plan.issueCounts[kind].toLocaleString()}
+                </li>
+              ))}
+            </ul>
+            <div className="space-y-2">
+              {plan.issueCounts.duplicate > 0 && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skip-duplicates"
+                    checked={options.skipDuplicates}
+                    onCheckedChange={(checked) => onOptionsChange({ ...options, skipDuplicates: checked === true })}
+                    disabled={disabled}
+                  />
+                  <Label htmlFor="skip-duplicates" className="font-normal">
+                    Analyze only the first copy of each duplicate
+                  </Label>
+                </div>
+              )}
+              {plan.issueCounts.too_long > 0 && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skip-too-long"
+                    checked={options.skipTooLong}
+                    onCheckedChange={(checked) => onOptionsChange({ ...options, skipTooLong: checked === true })}
+                    disabled={disabled}
+                  />
+                  <Label htmlFor="skip-too-long" className="font-normal">
+                    Leave out reviews over {MAX_REVIEW_LENGTH.toLocaleString()} characters
+                  </Label>
+                </div>
+              )}
+            </div>
+            <Collapsible>
+              <CollapsibleTrigger asChild>
+                <Button variant="link" size="sm" className="h-auto p-0">
+                  Show affected rows
+                  <ChevronDown className="ml-1 h-3 w-3" />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 text-xs">
+                  {plan.issues.slice(0, MAX_LISTED_ISSUES).map((issue, position) => (
+                    <li key={position}>
+                      <span className="font-mono">Row {issue.row + 1}</span>: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+                {plan.issues.length > MAX_LISTED_ISSUES && (
+                  <p className="mt-1 text-xs">and {plan.issues.length - MAX_LISTED_ISSUES} more</p>
+                )}
+              </CollapsibleContent>
+            </Collapsible>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-2 text-sm">
+        <FileCheck className="h-4 w-4 text-green-600" />
+        <span>
+          {plan.reviews.length.toLocaleString()} of {table.rows.length.toLocaleString()} rows will be analyzed
+        </span>
+      </div>
+    </div>
+  )
+}
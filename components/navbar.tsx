@@ -15,6 +15,9 @@ const navigation = [
   { name: "Home", href: "/" },
   { name: "Sentiment Analysis", href: "/sentiment-analysis" },
   { name: "Batch Uploads", href: "/batch-uploads" },
+  { name: "My Batches", href: "/batches" },
+  { name: "Compare", href: "/compare" },
+  { name: "History", href: "/history" },
 ]
 
 export function Navbar() {
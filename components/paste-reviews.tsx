@@ -0,0 +1,149 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { guessReviewColumn } from "@/lib/review-import"
+import { buildPastedFile, splitPastedText } from "@/lib/review-formats"
+import { ClipboardPaste, Pencil, Plus, X } from "lucide-react"
+
+interface PasteReviewsProps {
+  onSubmit: (file: File) => void
+  disabled?: boolean
+}
+
+interface PastedTable {
+  headers: string[]
+  rows: string[][]
+  reviewColumn: number
+}
+
+// Reviews shown for editing; longer pastes are edited in the text box
+const MAX_EDITABLE_ROWS = 200
+
+/**
+ * Paste-to-batch: text typed or pasted here, one review per line or cells
+ * copied from a spreadsheet, is split into reviews for a last edit and then
+ * handed on as an in-memory file, so it is analyzed like an uploaded one.
+ */
+export function PasteReviews({ onSubmit, disabled }: PasteReviewsProps) {
+  const [text, setText] = useState("")
+  const [firstRowIsHeader, setFirstRowIsHeader] = useState(false)
+  const [table, setTable] = useState<PastedTable | null>(null)
+  // Numbers the files made from pasted text so queued pastes can be told apart
+  const pasteCountRef = useRef(0)
+  const hasTabs = text.includes("\t")
+
+  const handleSplit = () => {
+    const { headers, rows } = splitPastedText(text, firstRowIsHeader)
+    setTable({ headers, rows, reviewColumn: guessReviewColumn({ headers, rows }) })
+  }
+
+  const updateReview = (row: number, value: string) =>
+    setTable((current) =>
+      current && {
+        ...current,
+        rows: current.rows.map((cells, position) =>
+          position === row ? cells.map((cell, column) => (column === current.reviewColumn ? value : cell)) : cells,
+        ),
+      },
+    )
+
+  const removeRow = (row: number) =>
+    setTable((current) => current && { ...current, rows: current.rows.filter((_, position) => position !== row) })
+
+  const handleSubmit = () => {
+    if (!table) return
+    pasteCountRef.current++
+    onSubmit(buildPastedFile(table.headers, table.rows, `pasted-reviews-${pasteCountRef.current}.tsv`))
+    setText("")
+    setTable(null)
+  }
+
+  if (!table) {
+    return (
+      <div className="space-y-4">
+        <Textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder="Paste reviews here, one per line, or cells copied from Excel or Google Sheets"
+          className="min-h-[200px] font-mono text-sm"
+          disabled={disabled}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="paste-header"
+              checked={firstRowIsHeader}
+              onCheckedChange={(checked) => setFirstRowIsHeader(checked === true)}
+              disabled={disabled}
+            />
+            <Label htmlFor="paste-header" className="font-normal">
+              First line holds column names
+            </Label>
+            {hasTabs && <Badge variant="secondary">tab-separated</Badge>}
+          </div>
+          <Button variant="outline" onClick={handleSplit} disabled={disabled || text.trim() === ""}>
+            <ClipboardPaste className="mr-2 h-4 w-4" />
+            Split into Reviews
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {table.rows.length.toLocaleString()} review{table.rows.length === 1 ? "" : "s"}
+          {table.headers.length > 1 && ` from the "${table.headers[table.reviewColumn]}" column`}. Edit or remove any
+          before adding them.
+        </p>
+        <Button variant="ghost" size="sm" onClick={() => setTable(null)} disabled={disabled}>
+          <Pencil className="mr-1 h-4 w-4" />
+          Edit Pasted Text
+        </Button>
+      </div>
+
+      {table.rows.length > MAX_EDITABLE_ROWS ? (
+        <p className="rounded-md border p-3 text-sm text-muted-foreground">
+          Too many reviews to edit one by one. Edit the pasted text instead, or add them as they are.
+        </p>
+      ) : (
+        <ol className="max-h-96 space-y-2 overflow-y-auto pr-1">
+          {table.rows.map((cells, row) => (
+            <li key={row} className="flex items-center gap-2">
+              <span className="w-8 shrink-0 text-right text-xs text-muted-foreground">{row + 1}</span>
+              <Input
+                value={cells[table.reviewColumn] ?? ""}
+                onChange={(event) => updateReview(row, event.target.value)}
+                disabled={disabled}
+                aria-label={`Review ${row + 1}`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => removeRow(row)}
+                disabled={disabled}
+                aria-label={`Remove review ${row + 1}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Button onClick={handleSubmit} disabled={disabled || table.rows.length === 0} className="w-full">
+        <Plus className="mr-2 h-4 w-4" />
+        Add {table.rows.length.toLocaleString()} Review{table.rows.length === 1 ? "" : "s"} to the Batch
+      </Button>
+    </div>
+  )
+}
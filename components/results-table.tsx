@@ -1,21 +1,208 @@
 "use client";
 
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
 import { SentimentBadge } from "@/components/sentiment-badge";
-import type { SentimentResult } from "@/lib/sentiment-api";
-import { BarChart3 } from "lucide-react";
-import { useState } from "react";
-import axios from "axios";
+import { SentimentCharts } from "@/components/sentiment-charts";
+import { SentimentTrendChart } from "@/components/sentiment-trend-chart";
+import type { ClassifiedReview } from "@/lib/sentiment-api";
+import { COLUMN_ROLES, COLUMN_ROLE_LABELS, type ColumnRole } from "@/lib/review-import";
+import { SENTIMENT_LABELS, countSentiments, type SentimentLabel } from "@/lib/sentiment";
+import {
+  DEFAULT_RESULTS_FILTER,
+  DEFAULT_RESULTS_SORT,
+  applyResultsFilter,
+  distinctProducts,
+  isFilterActive,
+  sortResults,
+  type ResultsFilter,
+  type ResultsSort,
+  type SortKey,
+} from "@/lib/results-filter";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp, ArrowUpDown, BarChart3, ChevronDown, ChevronRight, Search, Star, X } from "lucide-react";
 
 interface ResultsTableProps {
-  results: SentimentResult[];
+  results: ClassifiedReview[];
   totalProcessed: number;
 }
 
+// 0 shows every row on one page; the body is virtualized, so that stays cheap
+const ALL_ROWS = 0;
+const PAGE_SIZES = [25, 100, 1000, ALL_ROWS];
+
+// Collapsed row height used before a row has been measured
+const ESTIMATED_ROW_HEIGHT = 49;
+
+// Column widths for mapped metadata; the review column takes what is left
+const METADATA_COLUMN_WIDTHS: Record<ColumnRole, string> = {
+  product: "w-36",
+  date: "w-32",
+  rating: "w-24",
+  author: "w-36",
+};
+
+// Select value for "any"; Radix Select does not allow ""
+const ANY = "all";
+// Product options are prefixed so a product named like ANY stays selectable
+const PRODUCT_PREFIX = "product:";
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Page numbers to render around the current page, with "ellipsis" standing in
+ * for skipped runs. Pages are zero-based.
+ */
+function pageWindow(current: number, pageCount: number): (number | "ellipsis")[] {
+  const pages = new Set([0, pageCount - 1, current - 1, current, current + 1]);
+  const sorted = [...pages].filter((page) => page >= 0 && page < pageCount).sort((a, b) => a - b);
+  return sorted.flatMap((page, position) =>
+    position > 0 && page - sorted[position - 1] > 1 ? ["ellipsis" as const, page] : [page],
+  );
+}
+
+interface SortableHeadProps {
+  label: string;
+  sortKey: SortKey;
+  sort: ResultsSort;
+  onSort: (key: SortKey) => void;
+  className?: string;
+}
+
+function SortableHead({ label, sortKey, sort, onSort, className }: SortableHeadProps) {
+  const isSorted = sort.key === sortKey;
+  const Icon = !isSorted ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead
+      className={className}
+      aria-sort={isSorted ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+    >
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => onSort(sortKey)}>
+        {label}
+        <Icon className={cn("ml-1 h-3.5 w-3.5", !isSorted && "text-muted-foreground")} />
+      </Button>
+    </TableHead>
+  );
+}
+
+function MetadataValue({ result, role }: { result: ClassifiedReview; role: ColumnRole }) {
+  const value = result.metadata?.[role];
+  if (value === undefined) return <span className="text-muted-foreground">—</span>;
+  if (role === "rating") {
+    return (
+      <span className="inline-flex items-center gap-1 font-mono">
+        <Star className="h-3.5 w-3.5 fill-yellow-400 text-yellow-400" />
+        {value}
+      </span>
+    );
+  }
+  if (role === "date") return <span className="font-mono text-xs">{value}</span>;
+  return (
+    <div className="truncate" title={String(value)}>
+      {value}
+    </div>
+  );
+}
+
 export function ResultsTable({ results, totalProcessed }: ResultsTableProps) {
-  const getRowClassName = (sentiment: "Positive" | "Negative" | "Neutral") => {
+  const [filter, setFilter] = useState<ResultsFilter>(DEFAULT_RESULTS_FILTER);
+  const [sort, setSort] = useState<ResultsSort>(DEFAULT_RESULTS_SORT);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(100);
+  const [expanded, setExpanded] = useState<Set<number>>(() => new Set());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Filtering and sorting 100k rows takes tens of milliseconds; deferring
+  // keeps typing in the search box and dragging the slider responsive
+  const deferredFilter = useDeferredValue(filter);
+  const deferredSort = useDeferredValue(sort);
+  const isUpdating = deferredFilter !== filter || deferredSort !== sort;
+
+  const counts = useMemo(() => countSentiments(results), [results]);
+  // Metadata columns are shown only when at least one row has a value
+  const metadataColumns = useMemo(
+    () => COLUMN_ROLES.filter((role) => results.some((result) => result.metadata?.[role] !== undefined)),
+    [results],
+  );
+  const products = useMemo(() => distinctProducts(results), [results]);
+  const ratings = useMemo(() => {
+    const values = new Set<number>();
+    for (const result of results) {
+      if (result.metadata?.rating !== undefined) values.add(Math.round(result.metadata.rating));
+    }
+    return [...values].sort((a, b) => b - a);
+  }, [results]);
+  const columnCount = 5 + metadataColumns.length;
+  const filteredResults = useMemo(() => applyResultsFilter(results, deferredFilter), [results, deferredFilter]);
+  const visibleResults = useMemo(() => sortResults(filteredResults, deferredSort), [filteredResults, deferredSort]);
+
+  const rowsPerPage = pageSize === ALL_ROWS ? Math.max(1, visibleResults.length) : pageSize;
+  const pageCount = Math.max(1, Math.ceil(visibleResults.length / rowsPerPage));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageStart = currentPage * rowsPerPage;
+  const pageResults = useMemo(
+    () => visibleResults.slice(pageStart, pageStart + rowsPerPage),
+    [visibleResults, pageStart, rowsPerPage],
+  );
+
+  const virtualizer = useVirtualizer({
+    count: pageResults.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    getItemKey: (position) => pageResults[position].index,
+    overscan: 10,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom =
+    virtualRows.length > 0 ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [currentPage, deferredFilter, deferredSort, pageSize]);
+
+  const updateFilter = (next: ResultsFilter) => {
+    setFilter(next);
+    setPage(0);
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+        : // Highest confidence first is the more useful default
+          { key, direction: key === "confidence" ? "desc" : "asc" },
+    );
+    setPage(0);
+  };
+
+  const toggleExpanded = (index: number) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (!next.delete(index)) next.add(index);
+      return next;
+    });
+  };
+
+  const getRowClassName = (sentiment: SentimentLabel) => {
     switch (sentiment) {
       case "Positive":
         return "bg-green-50 dark:bg-green-950/20 border-l-4 border-l-green-500";
@@ -45,7 +232,7 @@ export function ResultsTable({ results, totalProcessed }: ResultsTableProps) {
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-green-600">
-              {results.filter((result) => result.sentiment === "Positive").length}
+              {counts.Positive}
             </div>
             <div className="text-sm text-muted-foreground">Positive</div>
           </CardContent>
@@ -53,7 +240,7 @@ export function ResultsTable({ results, totalProcessed }: ResultsTableProps) {
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-red-600">
-              {results.filter((result) => result.sentiment === "Negative").length}
+              {counts.Negative}
             </div>
             <div className="text-sm text-muted-foreground">Negative</div>
           </CardContent>
@@ -61,13 +248,19 @@ export function ResultsTable({ results, totalProcessed }: ResultsTableProps) {
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-gray-600">
-              {results.filter((result) => result.sentiment === "Neutral").length}
+              {counts.Neutral}
             </div>
             <div className="text-sm text-muted-foreground">Neutral</div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Charts */}
+      <SentimentCharts results={results} filter={filter} onFilterChange={updateFilter} />
+      {metadataColumns.includes("date") && (
+        <SentimentTrendChart results={results} filter={filter} onFilterChange={updateFilter} />
+      )}
+
       {/* Results Table */}
       <Card>
         <CardHeader>
@@ -75,214 +268,356 @@ export function ResultsTable({ results, totalProcessed }: ResultsTableProps) {
             <BarChart3 className="h-5 w-5" />
             Analysis Results
           </CardTitle>
-          <CardDescription>Detailed sentiment analysis results for each review</CardDescription>
+          <CardDescription className={cn(isUpdating && "opacity-60")}>
+            {isFilterActive(deferredFilter)
+              ? `Showing ${visibleResults.length} of ${results.length} reviews`
+              : "Detailed sentiment analysis results for each review"}
+          </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="rounded-md border overflow-hidden">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead className="w-[60%]">Review</TableHead>
-                  <TableHead className="w-[20%]">Sentiment</TableHead>
-                  <TableHead className="w-[20%]">Confidence</TableHead>
+        <CardContent className="space-y-4">
+          {/* Filters */}
+          <div className="grid gap-4 md:grid-cols-[2fr_1fr_1.5fr_auto] items-end">
+            <div className="space-y-2">
+              <Label htmlFor="results-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="results-search"
+                  placeholder={
+                    metadataColumns.includes("product") || metadataColumns.includes("author")
+                      ? "Search reviews, products and authors"
+                      : "Search review text"
+                  }
+                  value={filter.query}
+                  onChange={(e) => updateFilter({ ...filter, query: e.target.value })}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Sentiment</Label>
+              <Select
+                value={filter.sentiment}
+                onValueChange={(value) => updateFilter({ ...filter, sentiment: value as ResultsFilter["sentiment"] })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sentiments</SelectItem>
+                  {SENTIMENT_LABELS.map((label) => (
+                    <SelectItem key={label} value={label}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label>Confidence</Label>
+                <span className="text-sm text-muted-foreground">
+                  {formatPercent(filter.confidenceRange[0])}–{formatPercent(filter.confidenceRange[1])}
+                </span>
+              </div>
+              <Slider
+                min={0}
+                max={1}
+                step={0.01}
+                minStepsBetweenThumbs={1}
+                value={filter.confidenceRange}
+                onValueChange={([min, max]) => updateFilter({ ...filter, confidenceRange: [min, max] })}
+                aria-label="Confidence range"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              onClick={() => updateFilter(DEFAULT_RESULTS_FILTER)}
+              disabled={!isFilterActive(filter)}
+            >
+              <X className="mr-1 h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+
+          {(products.length > 0 || ratings.length > 0 || metadataColumns.includes("date")) && (
+            <div className="grid gap-4 md:grid-cols-4 items-end">
+              {products.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Product</Label>
+                  <Select
+                    value={filter.product === null ? ANY : PRODUCT_PREFIX + filter.product}
+                    onValueChange={(value) =>
+                      updateFilter({
+                        ...filter,
+                        product: value.startsWith(PRODUCT_PREFIX) ? value.slice(PRODUCT_PREFIX.length) : null,
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>All products</SelectItem>
+                      {products.map((product) => (
+                        <SelectItem key={product} value={PRODUCT_PREFIX + product}>
+                          {product}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {ratings.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Rating</Label>
+                  <Select
+                    value={String(filter.rating)}
+                    onValueChange={(value) =>
+                      updateFilter({ ...filter, rating: value === ANY ? ANY : Number(value) })
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>All ratings</SelectItem>
+                      {ratings.map((rating) => (
+                        <SelectItem key={rating} value={String(rating)}>
+                          {rating}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {metadataColumns.includes("date") && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="results-date-from">From</Label>
+                    <Input
+                      id="results-date-from"
+                      type="date"
+                      value={filter.dateRange[0]}
+                      max={filter.dateRange[1] || undefined}
+                      onChange={(e) => updateFilter({ ...filter, dateRange: [e.target.value, filter.dateRange[1]] })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="results-date-to">To</Label>
+                    <Input
+                      id="results-date-to"
+                      type="date"
+                      value={filter.dateRange[1]}
+                      min={filter.dateRange[0] || undefined}
+                      onChange={(e) => updateFilter({ ...filter, dateRange: [filter.dateRange[0], e.target.value] })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <div
+            ref={scrollRef}
+            className={cn("rounded-md border overflow-auto max-h-[640px]", isUpdating && "opacity-60")}
+          >
+            <table className="w-full table-fixed caption-bottom text-sm">
+              <TableHeader className="sticky top-0 z-10 bg-background shadow-[0_1px_0_var(--border)]">
+                <TableRow className="hover:bg-transparent">
+                  <TableHead className="w-12">
+                    <span className="sr-only">Expand</span>
+                  </TableHead>
+                  <SortableHead label="#" sortKey="index" sort={sort} onSort={toggleSort} className="w-20" />
+                  <TableHead>Review</TableHead>
+                  <SortableHead label="Sentiment" sortKey="sentiment" sort={sort} onSort={toggleSort} className="w-36" />
+                  <SortableHead label="Confidence" sortKey="confidence" sort={sort} onSort={toggleSort} className="w-32" />
+                  {metadataColumns.map((role) =>
+                    role === "author" ? (
+                      <TableHead key={role} className={METADATA_COLUMN_WIDTHS[role]}>
+                        {COLUMN_ROLE_LABELS[role]}
+                      </TableHead>
+                    ) : (
+                      <SortableHead
+                        key={role}
+                        label={COLUMN_ROLE_LABELS[role]}
+                        sortKey={role}
+                        sort={sort}
+                        onSort={toggleSort}
+                        className={METADATA_COLUMN_WIDTHS[role]}
+                      />
+                    ),
+                  )}
                 </TableRow>
               </TableHeader>
-              <TableBody>
-                {results.map((result, index) => (
-                  <TableRow key={index} className={getRowClassName(result.sentiment)}>
-                    <TableCell className="font-medium">
-                      <div className="max-w-md truncate" title={result.review}>
-                        {result.review || `Review ${index + 1}`}
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <SentimentBadge sentiment={result.sentiment} />
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="outline" className="font-mono">
-                        {Math.round(result.confidence * 100)}%
-                      </Badge>
+              {pageResults.length === 0 && (
+                <tbody>
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="py-8 text-center text-muted-foreground">
+                      No reviews match the current filters.
                     </TableCell>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+                </tbody>
+              )}
+              {paddingTop > 0 && (
+                <tbody aria-hidden>
+                  <tr style={{ height: paddingTop }} />
+                </tbody>
+              )}
+              {/* One tbody per result so a row and its expanded detail are measured together */}
+              {virtualRows.map((virtualRow) => {
+                const result = pageResults[virtualRow.index];
+                const isExpanded = expanded.has(result.index);
+                return (
+                  <tbody key={virtualRow.key} ref={virtualizer.measureElement} data-index={virtualRow.index}>
+                    <TableRow className={getRowClassName(result.sentiment)}>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => toggleExpanded(result.index)}
+                          aria-expanded={isExpanded}
+                          aria-label={isExpanded ? "Collapse review" : "Expand review"}
+                        >
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="font-mono text-muted-foreground">{result.index + 1}</TableCell>
+                      <TableCell className="font-medium">
+                        <div className="truncate" title={result.review}>
+                          {result.review || `Review ${result.index + 1}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <SentimentBadge sentiment={result.sentiment} />
+                        {result.rawLabel !== result.sentiment && (
+                          <div className="text-xs text-muted-foreground mt-1">Model: {result.rawLabel}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-mono">
+                          {Math.round(result.confidence * 100)}%
+                        </Badge>
+                      </TableCell>
+                      {metadataColumns.map((role) => (
+                        <TableCell key={role}>
+                          <MetadataValue result={result} role={role} />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell />
+                        <TableCell colSpan={columnCount - 1} className="space-y-2 py-4 whitespace-normal">
+                          <p className="whitespace-pre-wrap break-words text-sm">
+                            {result.review || "(empty review)"}
+                          </p>
+                          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                            <span>Row {result.index + 1}</span>
+                            <span>Model label: {result.rawLabel}</span>
+                            <span>Confidence: {(result.confidence * 100).toFixed(1)}%</span>
+                            <span>{result.review.length} characters</span>
+                            {metadataColumns.map(
+                              (role) =>
+                                result.metadata?.[role] !== undefined && (
+                                  <span key={role}>
+                                    {COLUMN_ROLE_LABELS[role]}: {result.metadata[role]}
+                                  </span>
+                                ),
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </tbody>
+                );
+              })}
+              {paddingBottom > 0 && (
+                <tbody aria-hidden>
+                  <tr style={{ height: paddingBottom }} />
+                </tbody>
+              )}
+            </table>
           </div>
-        </CardContent>
-      </Card>
-    </div>
-  );
-}
-
-// ✅ NEW: Parent component that manages state and file upload
-export function SentimentAnalyzer() {
-  // Move the hooks INSIDE this component
-  const [results, setResults] = useState<{ results: SentimentResult[]; totalProcessed: number } | null>(null);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // File upload handler
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    try {
-      console.log("=== File Upload Started ===");
-      setError(null); // Clear any previous errors
-      
-      const file = event.target.files?.[0];
-      if (!file) {
-        console.error("No file selected");
-        setError("No file selected");
-        return;
-      }
-
-      console.log("File selected:", {
-        name: file.name,
-        size: file.size,
-        type: file.type
-      });
-
-      setSelectedFile(file);
-      setIsLoading(true);
-
-      const formData = new FormData();
-      formData.append("file", file);
-
-      console.log("=== Making API Call ===");
-      
-      const response = await axios.post(
-        "https://ox4zaij7lh.execute-api.us-west-1.amazonaws.com",
-        formData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-            // Add any required headers here if needed
-          },
-        }
-      );
-
-      console.log("=== API Response Received ===");
-      console.log("Full response:", response);
-      console.log("Response data:", response.data);
-      console.log("Response status:", response.status);
 
-      // Validate response structure
-      if (!response.data) {
-        throw new Error("No data received from API");
-      }
-
-      if (!response.data.reviews || !Array.isArray(response.data.reviews)) {
-        console.error("Invalid response structure:", response.data);
-        throw new Error("Invalid API response: reviews array not found");
-      }
-
-      console.log("=== Processing API Response ===");
-      console.log("Reviews count:", response.data.reviews.length);
-
-      // Map the API response to our component's expected format
-      const parsedResults = response.data.reviews.map((review: any, index: number) => {
-        console.log(`Processing review ${index}:`, review);
-        
-        // Convert API sentiment format to our component format
-        let sentiment: "Positive" | "Negative" | "Neutral" = "Neutral";
-        if (review.sentiment === "POSITIVE") {
-          sentiment = "Positive";
-        } else if (review.sentiment === "NEGATIVE") {
-          sentiment = "Negative";
-        } else {
-          sentiment = "Neutral";
-        }
-        
-        return {
-          review: review.original_text || `Review ${index + 1}`,
-          sentiment: sentiment,
-          confidence: review.confidence || 0,
-        };
-      });
-
-      console.log("=== Final Parsed Results ===");
-      console.log("Parsed results:", parsedResults);
-      
-      setResults({
-        results: parsedResults,
-        totalProcessed: response.data.summary?.total_reviews || parsedResults.length,
-      });
-      
-      console.log("=== Processing Complete ===");
-
-    } catch (error) {
-      console.error("=== Error in handleFileUpload ===");
-      console.error("Error type:", typeof error);
-      console.error("Error object:", error);
-      
-      let errorMessage = "An unexpected error occurred";
-      
-      if (axios.isAxiosError(error)) {
-        console.error("Axios error details:");
-        console.error("- Response:", error.response);
-        console.error("- Request:", error.request);
-        console.error("- Message:", error.message);
-        
-        if (error.response) {
-          console.error("- Status:", error.response.status);
-          console.error("- Data:", error.response.data);
-          errorMessage = `API Error (${error.response.status}): ${error.response.data?.message || error.message}`;
-        } else if (error.request) {
-          errorMessage = "Network error: Unable to reach the API server";
-        } else {
-          errorMessage = `Request setup error: ${error.message}`;
-        }
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-        console.error("Error message:", error.message);
-        console.error("Error stack:", error.stack);
-      } else {
-        console.error("Non-Error object:", error);
-      }
-      
-      setError(errorMessage);
-    } finally {
-      setIsLoading(false);
-      console.log("=== File Upload Process Finished ===");
-    }
-  };
-
-  return (
-    <div className="space-y-4">
-      {/* File Upload Section */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Upload CSV File</CardTitle>
-          <CardDescription>Select a CSV file containing reviews for sentiment analysis</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <input
-            type="file"
-            accept=".csv"
-            onChange={handleFileUpload}
-            className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
-            disabled={isLoading}
-          />
-          {isLoading && <div className="mt-2 text-sm text-gray-600">Processing...</div>}
-          {selectedFile && (
-            <div className="mt-2 text-sm text-gray-600">
-              Selected: {selectedFile.name}
+          {/* Pagination */}
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span>Rows per page</span>
+              <Select
+                value={String(pageSize)}
+                onValueChange={(value) => {
+                  setPageSize(Number(value));
+                  setPage(0);
+                }}
+              >
+                <SelectTrigger className="h-8 w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)}>
+                      {size === ALL_ROWS ? "All" : size}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span>
+                {visibleResults.length === 0
+                  ? "0 rows"
+                  : `${pageStart + 1}–${pageStart + pageResults.length} of ${visibleResults.length}`}
+              </span>
             </div>
-          )}
-          {error && (
-            <div className="mt-2 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
-              Error: {error}
-            </div>
-          )}
+            {pageCount > 1 && (
+              <Pagination className="mx-0 w-auto">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      aria-disabled={currentPage === 0}
+                      className={cn(currentPage === 0 && "pointer-events-none opacity-50")}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage(currentPage - 1);
+                      }}
+                    />
+                  </PaginationItem>
+                  {pageWindow(currentPage, pageCount).map((entry, position) => (
+                    <PaginationItem key={entry === "ellipsis" ? `ellipsis-${position}` : entry}>
+                      {entry === "ellipsis" ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink
+                          href="#"
+                          isActive={entry === currentPage}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setPage(entry);
+                          }}
+                        >
+                          {entry + 1}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      aria-disabled={currentPage === pageCount - 1}
+                      className={cn(currentPage === pageCount - 1 && "pointer-events-none opacity-50")}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage(currentPage + 1);
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </div>
         </CardContent>
       </Card>
-
-      {/* Results Section */}
-      {results && (
-        <ResultsTable
-          results={results.results}
-          totalProcessed={results.totalProcessed}
-        />
-      )}
     </div>
   );
-}
\ No newline at end of file
+}
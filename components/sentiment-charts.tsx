@@ -0,0 +1,260 @@
+"use client"
+
+import { useMemo } from "react"
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { DEFAULT_RESULTS_FILTER, type ResultsFilter } from "@/lib/results-filter"
+import { SENTIMENT_LABELS, countSentiments, type SentimentLabel } from "@/lib/sentiment"
+import { binIndex, boxPlotStats, type BoxPlotStats } from "@/lib/statistics"
+
+/** Sentiment colors for light and dark mode; exposed as `var(--color-<label>)`. */
+export const sentimentChartConfig = {
+  Positive: { label: "Positive", theme: { light: "hsl(142 71% 45%)", dark: "hsl(142 69% 58%)" } },
+  Negative: { label: "Negative", theme: { light: "hsl(0 72% 51%)", dark: "hsl(0 91% 71%)" } },
+  Neutral: { label: "Neutral", theme: { light: "hsl(220 9% 46%)", dark: "hsl(218 11% 65%)" } },
+} satisfies ChartConfig
+
+const HISTOGRAM_BINS = 10
+
+interface ChartItem {
+  sentiment: SentimentLabel
+  confidence: number
+}
+
+interface SentimentChartsProps {
+  results: ChartItem[]
+  filter: ResultsFilter
+  onFilterChange: (filter: ResultsFilter) => void
+}
+
+interface HistogramBin extends Record<SentimentLabel, number> {
+  label: string
+  range: [number, number]
+}
+
+interface BoxPlotDatum extends BoxPlotStats {
+  sentiment: SentimentLabel
+  range: [number, number]
+}
+
+interface BoxPlotShapeProps {
+  x?: number
+  y?: number
+  width?: number
+  height?: number
+  payload?: BoxPlotDatum
+  fill?: string
+  fillOpacity?: number
+}
+
+/**
+ * Draws one box-and-whisker glyph. Recharts sizes the ranged bar to span
+ * [min, max]; the quartiles are placed by interpolating within that span.
+ */
+function BoxPlotShape({ x = 0, y = 0, width = 0, height = 0, payload, fill, fillOpacity }: BoxPlotShapeProps) {
+  if (!payload) return null
+  const top = Math.min(y, y + height)
+  const span = Math.abs(height)
+  const extent = payload.max - payload.min
+  const toY = (value: number) => (extent === 0 ? top : top + ((payload.max - value) / extent) * span)
+  const center = x + width / 2
+  const boxWidth = Math.min(width * 0.6, 56)
+  const boxLeft = center - boxWidth / 2
+
+  return (
+    <g opacity={fillOpacity}>
+      <line x1={center} x2={center} y1={toY(payload.max)} y2={toY(payload.min)} stroke={fill} strokeWidth={1.5} />
+      <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={toY(payload.max)} y2={toY(payload.max)} stroke={fill} strokeWidth={1.5} />
+      <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={toY(payload.min)} y2={toY(payload.min)} stroke={fill} strokeWidth={1.5} />
+      <rect
+        x={boxLeft}
+        y={toY(payload.q3)}
+        width={boxWidth}
+        height={Math.max(1, toY(payload.q1) - toY(payload.q3))}
+        fill={fill}
+        fillOpacity={0.35}
+        stroke={fill}
+        strokeWidth={1.5}
+        rx={2}
+      />
+      <line x1={boxLeft} x2={boxLeft + boxWidth} y1={toY(payload.median)} y2={toY(payload.median)} stroke={fill} strokeWidth={2.5} />
+    </g>
+  )
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+
+/**
+ * Visualization panel for batch results: sentiment split, confidence
+ * histogram and per-sentiment box plot. Clicking a segment narrows
+ * `filter`; clicking the active segment again clears it.
+ */
+export function SentimentCharts({ results, filter, onFilterChange }: SentimentChartsProps) {
+  const counts = useMemo(() => countSentiments(results), [results])
+
+  const pieData = useMemo(
+    () =>
+      SENTIMENT_LABELS.filter((label) => counts[label] > 0).map((label) => ({
+        sentiment: label,
+        count: counts[label],
+        fill: `var(--color-${label})`,
+      })),
+    [counts],
+  )
+
+  const histogram = useMemo(() => {
+    const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, bin) => ({
+      label: `${(bin * 100) / HISTOGRAM_BINS}–${((bin + 1) * 100) / HISTOGRAM_BINS}%`,
+      range: [bin / HISTOGRAM_BINS, (bin + 1) / HISTOGRAM_BINS],
+      Positive: 0,
+      Negative: 0,
+      Neutral: 0,
+    }))
+    for (const item of results) bins[binIndex(item.confidence, HISTOGRAM_BINS)][item.sentiment]++
+    // Two-class models never go below 50%; drop the empty leading bins
+    const first = bins.findIndex((bin) => SENTIMENT_LABELS.some((label) => bin[label] > 0))
+    return first === -1 ? bins : bins.slice(first)
+  }, [results])
+
+  const boxPlots = useMemo(
+    () =>
+      SENTIMENT_LABELS.flatMap((label): BoxPlotDatum[] => {
+        const stats = boxPlotStats(results.filter((item) => item.sentiment === label).map((item) => item.confidence))
+        return stats ? [{ ...stats, sentiment: label, range: [stats.min, stats.max] }] : []
+      }),
+    [results],
+  )
+
+  // Chart clicks only touch the sentiment and confidence range; a search
+  // query typed into the table is kept
+  const toggle = (sentiment: SentimentLabel, confidenceRange: [number, number]) => {
+    const isActive =
+      filter.sentiment === sentiment &&
+      filter.confidenceRange[0] === confidenceRange[0] &&
+      filter.confidenceRange[1] === confidenceRange[1]
+    onFilterChange(
+      isActive
+        ? { ...filter, sentiment: DEFAULT_RESULTS_FILTER.sentiment, confidenceRange: DEFAULT_RESULTS_FILTER.confidenceRange }
+        : { ...filter, sentiment, confidenceRange },
+    )
+  }
+  const toggleSentiment = (sentiment: SentimentLabel) => toggle(sentiment, DEFAULT_RESULTS_FILTER.confidenceRange)
+  const toggleBin = (sentiment: SentimentLabel, range: [number, number]) => toggle(sentiment, range)
+
+  const opacityFor = (sentiment: SentimentLabel) => (filter.sentiment === "all" || filter.sentiment === sentiment ? 1 : 0.3)
+
+  if (results.length === 0) return null
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-3">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Sentiment Split</CardTitle>
+          <CardDescription>Click a segment to filter the table</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={sentimentChartConfig} className="mx-auto aspect-square max-h-[240px]">
+            <PieChart>
+              <ChartTooltip content={<ChartTooltipContent nameKey="sentiment" hideLabel />} />
+              <Pie
+                data={pieData}
+                dataKey="count"
+                nameKey="sentiment"
+                innerRadius="55%"
+                strokeWidth={2}
+                className="cursor-pointer"
+                onClick={(data: { sentiment: SentimentLabel }) => toggleSentiment(data.sentiment)}
+              >
+                {pieData.map((entry) => (
+                  <Cell key={entry.sentiment} fill={entry.fill} fillOpacity={opacityFor(entry.sentiment)} />
+                ))}
+              </Pie>
+            </PieChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Confidence Distribution</CardTitle>
+          <CardDescription>Reviews per confidence band, by sentiment</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={sentimentChartConfig} className="aspect-[4/3] max-h-[240px] w-full">
+            <BarChart data={histogram}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} interval={0} angle={-30} dy={6} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              {SENTIMENT_LABELS.map((label) => (
+                <Bar
+                  key={label}
+                  dataKey={label}
+                  stackId="confidence"
+                  fill={`var(--color-${label})`}
+                  fillOpacity={opacityFor(label)}
+                  className="cursor-pointer"
+                  onClick={(data: { payload: HistogramBin }) => toggleBin(label, data.payload.range)}
+                />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Confidence by Sentiment</CardTitle>
+          <CardDescription>Median, quartiles and range</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={sentimentChartConfig} className="aspect-[4/3] max-h-[240px] w-full">
+            <BarChart data={boxPlots}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="sentiment" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 1]} tickFormatter={formatPercent} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    hideIndicator
+                    labelKey="sentiment"
+                    labelFormatter={(_, payload) => payload?.[0]?.payload?.sentiment}
+                    formatter={(_, __, item) => {
+                      const stats = item.payload as BoxPlotDatum
+                      return (
+                        <div className="grid gap-0.5 text-muted-foreground">
+                          <span>Reviews: {stats.count}</span>
+                          <span>Max: {formatPercent(stats.max)}</span>
+                          <span>Q3: {formatPercent(stats.q3)}</span>
+                          <span>Median: {formatPercent(stats.median)}</span>
+                          <span>Q1: {formatPercent(stats.q1)}</span>
+                          <span>Min: {formatPercent(stats.min)}</span>
+                        </div>
+                      )
+                    }}
+                  />
+                }
+              />
+              <Bar
+                dataKey="range"
+                shape={<BoxPlotShape />}
+                className="cursor-pointer"
+                onClick={(data: { payload: BoxPlotDatum }) => toggleSentiment(data.payload.sentiment)}
+              >
+                {boxPlots.map((entry) => (
+                  <Cell
+                    key={entry.sentiment}
+                    fill={`var(--color-${entry.sentiment})`}
+                    fillOpacity={opacityFor(entry.sentiment)}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { SentimentBadge } from "@/components/sentiment-badge"
+import { useSentimentSettings } from "@/hooks/use-sentiment-settings"
+import {
+  DEFAULT_NEUTRAL_THRESHOLD,
+  NEUTRAL_THRESHOLD_RANGE,
+  SENTIMENT_LABELS,
+  classifySentiment,
+  countSentiments,
+  type SentimentLabel,
+} from "@/lib/sentiment"
+import { SlidersHorizontal } from "lucide-react"
+
+interface PreviewItem {
+  rawLabel: SentimentLabel
+  confidence: number
+  review?: string
+}
+
+interface SentimentSettingsDialogProps {
+  /** Current results, reclassified live while the slider moves. */
+  previewItems?: PreviewItem[]
+  className?: string
+}
+
+const MAX_CHANGED_EXAMPLES = 5
+
+export function SentimentSettingsDialog({ previewItems = [], className }: SentimentSettingsDialogProps) {
+  const { neutralThreshold, setNeutralThreshold } = useSentimentSettings()
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState(neutralThreshold)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setDraft(neutralThreshold)
+    setOpen(nextOpen)
+  }
+
+  const preview = useMemo(() => {
+    const current = previewItems.map((item) => classifySentiment(item.rawLabel, item.confidence, neutralThreshold))
+    const next = previewItems.map((item) => classifySentiment(item.rawLabel, item.confidence, draft))
+    const changed = previewItems
+      .map((item, position) => ({ item, from: current[position], to: next[position] }))
+      .filter(({ from, to }) => from !== to)
+
+    return {
+      current: countSentiments(current.map((sentiment) => ({ sentiment }))),
+      next: countSentiments(next.map((sentiment) => ({ sentiment }))),
+      changed,
+    }
+  }, [previewItems, neutralThreshold, draft])
+
+  const handleSave = () => {
+    setNeutralThreshold(draft)
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Neutral threshold: {Math.round(neutralThreshold * 100)}%
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Neutral Threshold</DialogTitle>
+          <DialogDescription>
+            Predictions with confidence below this value are shown as Neutral. The model's original label is
+            always kept alongside.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <Label>Confidence threshold</Label>
+              <span className="text-sm font-bold font-mono">{Math.round(draft * 100)}%</span>
+            </div>
+            <Slider
+              value={[draft]}
+              min={NEUTRAL_THRESHOLD_RANGE.min}
+              max={NEUTRAL_THRESHOLD_RANGE.max}
+              step={NEUTRAL_THRESHOLD_RANGE.step}
+              onValueChange={([value]) => setDraft(value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Default is {Math.round(DEFAULT_NEUTRAL_THRESHOLD * 100)}%. At{" "}
+              {Math.round(NEUTRAL_THRESHOLD_RANGE.min * 100)}% the model's label is used as-is.
+            </p>
+          </div>
+
+          {previewItems.length > 0 && (
+            <div className="space-y-3">
+              <Label>Preview on current results</Label>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {SENTIMENT_LABELS.map((label) => (
+                  <div key={label} className="rounded-lg border p-2">
+                    <div className="text-xs text-muted-foreground">{label}</div>
+                    <div className="font-bold">
+                      {preview.current[label]}
+                      {preview.next[label] !== preview.current[label] && (
+                        <span className="text-blue-600"> → {preview.next[label]}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {preview.changed.length === 0
+                  ? "No results change classification."
+                  : `${preview.changed.length} of ${previewItems.length} results change classification.`}
+              </p>
+              {preview.changed.length > 0 && (
+                <ul className="space-y-2">
+                  {preview.changed.slice(0, MAX_CHANGED_EXAMPLES).map(({ item, from, to }, position) => (
+                    <li key={position} className="flex items-center gap-2 text-sm">
+                      <SentimentBadge sentiment={from} />
+                      <span>→</span>
+                      <SentimentBadge sentiment={to} />
+                      <span className="truncate text-muted-foreground" title={item.review}>
+                        {item.review || `${Math.round(item.confidence * 100)}% confidence`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_NEUTRAL_THRESHOLD)}>
+            Reset to default
+          </Button>
+          <Button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,257 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Area, AreaChart, Brush, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { sentimentChartConfig } from "@/components/sentiment-charts"
+import { EARLIEST_REVIEW_DATE } from "@/lib/review-import"
+import { DEFAULT_RESULTS_FILTER, type FilterableResult, type ResultsFilter } from "@/lib/results-filter"
+import { SENTIMENT_LABELS } from "@/lib/sentiment"
+import {
+  TREND_GRANULARITY_LABELS,
+  buildSentimentTrend,
+  suggestGranularity,
+  type TrendBucket,
+  type TrendGranularity,
+} from "@/lib/sentiment-trend"
+import { TrendingUp } from "lucide-react"
+
+type TrendChartType = "line" | "area"
+
+const trendChartConfig = {
+  ...sentimentChartConfig,
+  averageConfidence: { label: "Average confidence", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+interface SentimentTrendChartProps {
+  results: FilterableResult[]
+  filter: ResultsFilter
+  onFilterChange: (filter: ResultsFilter) => void
+}
+
+// Shares as percentages with one decimal; null keeps an empty bucket a gap
+const toPercent = (share: number | null) => (share === null ? null : Math.round(share * 1000) / 10)
+
+/** Buckets covered by the filter's date range, as indexes for the brush. */
+function brushWindow(buckets: TrendBucket[], [from, to]: [string, string]) {
+  let startIndex = 0
+  let endIndex = buckets.length - 1
+  if (from) {
+    const first = buckets.findIndex((bucket) => bucket.end >= from)
+    startIndex = first === -1 ? endIndex : first
+  }
+  if (to) {
+    while (endIndex > startIndex && buckets[endIndex].start > to) endIndex--
+  }
+  return { startIndex, endIndex }
+}
+
+/**
+ * Sentiment over time for reviews with a mapped date: the share of each
+ * sentiment and the average confidence per day, week or month. Dragging
+ * the brush sets the table's date range to the selected buckets.
+ */
+export function SentimentTrendChart({ results, filter, onFilterChange }: SentimentTrendChartProps) {
+  // A choice of grouping applies to the results it was made for; new results get a fresh suggestion
+  const [chosen, setChosen] = useState<{ results: FilterableResult[]; granularity: TrendGranularity } | null>(null)
+  const [chartType, setChartType] = useState<TrendChartType>("line")
+
+  const suggested = useMemo(() => suggestGranularity(results), [results])
+  const requested = chosen?.results === results ? chosen.granularity : suggested
+  const trend = useMemo(() => buildSentimentTrend(results, requested), [results, requested])
+  const { granularity } = trend
+  const data = useMemo(
+    () =>
+      trend.buckets.map((bucket) => ({
+        label: bucket.label,
+        total: bucket.total,
+        Positive: toPercent(bucket.Positive),
+        Negative: toPercent(bucket.Negative),
+        Neutral: toPercent(bucket.Neutral),
+        averageConfidence: toPercent(bucket.averageConfidence),
+      })),
+    [trend],
+  )
+
+  if (trend.buckets.length === 0) return null
+
+  const { startIndex, endIndex } = brushWindow(trend.buckets, filter.dateRange)
+  // The confidence chart follows the brush on the share chart
+  const windowData = data.slice(startIndex, endIndex + 1)
+
+  const handleBrushChange = (range: { startIndex?: number; endIndex?: number }) => {
+    if (range.startIndex === undefined || range.endIndex === undefined) return
+    const isFullRange = range.startIndex === 0 && range.endIndex === trend.buckets.length - 1
+    onFilterChange({
+      ...filter,
+      dateRange: isFullRange
+        ? DEFAULT_RESULTS_FILTER.dateRange
+        : [trend.buckets[range.startIndex].start, trend.buckets[range.endIndex].end],
+    })
+  }
+
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} fontSize={11} />
+      <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={44} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+    </>
+  )
+  const brush = trend.buckets.length > 1 && (
+    <Brush
+      key={granularity}
+      dataKey="label"
+      height={24}
+      startIndex={startIndex}
+      endIndex={endIndex}
+      onChange={handleBrushChange}
+      stroke="var(--muted-foreground)"
+      travellerWidth={8}
+    />
+  )
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <TrendingUp className="h-4 w-4" />
+              Sentiment Over Time
+            </CardTitle>
+            <CardDescription>
+              Share of each sentiment per {granularity}. Drag the handles below the chart to filter the table to a
+              time window.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={chartType}
+              onValueChange={(value) => value && setChartType(value as TrendChartType)}
+              aria-label="Chart type"
+            >
+              <ToggleGroupItem value="line">Line</ToggleGroupItem>
+              <ToggleGroupItem value="area">Area</ToggleGroupItem>
+            </ToggleGroup>
+            <Select
+              value={granularity}
+              onValueChange={(value) => setChosen({ results, granularity: value as TrendGranularity })}
+            >
+              <SelectTrigger className="w-[110px]" aria-label="Group by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TREND_GRANULARITY_LABELS) as TrendGranularity[]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {TREND_GRANULARITY_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer config={trendChartConfig} className="aspect-[3/1] max-h-[300px] w-full">
+          {chartType === "area" ? (
+            <AreaChart data={data}>
+              {axes}
+              <ChartLegend content={<ChartLegendContent />} />
+              {SENTIMENT_LABELS.map((label) => (
+                <Area
+                  key={label}
+                  dataKey={label}
+                  type="monotone"
+                  stackId="share"
+                  fill={`var(--color-${label})`}
+                  stroke={`var(--color-${label})`}
+                  fillOpacity={0.4}
+                />
+              ))}
+              {brush}
+            </AreaChart>
+          ) : (
+            <LineChart data={data}>
+              {axes}
+              <ChartLegend content={<ChartLegendContent />} />
+              {SENTIMENT_LABELS.map((label) => (
+                <Line
+                  key={label}
+                  dataKey={label}
+                  type="monotone"
+                  stroke={`var(--color-${label})`}
+                  strokeWidth={2}
+                  dot={data.length <= 31}
+                />
+              ))}
+              {brush}
+            </LineChart>
+          )}
+        </ChartContainer>
+
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Average confidence in the selected window</p>
+          <ChartContainer config={trendChartConfig} className="aspect-[6/1] max-h-[140px] w-full">
+            {chartType === "area" ? (
+              <AreaChart data={windowData}>
+                {axes}
+                <Area
+                  dataKey="averageConfidence"
+                  type="monotone"
+                  fill="var(--color-averageConfidence)"
+                  stroke="var(--color-averageConfidence)"
+                  fillOpacity={0.3}
+                />
+              </AreaChart>
+            ) : (
+              <LineChart data={windowData}>
+                {axes}
+                <Line
+                  dataKey="averageConfidence"
+                  type="monotone"
+                  stroke="var(--color-averageConfidence)"
+                  strokeWidth={2}
+                  dot={windowData.length <= 31}
+                />
+              </LineChart>
+            )}
+          </ChartContainer>
+        </div>
+
+        {granularity !== requested && (
+          <p className="text-xs text-muted-foreground">
+            These dates span too many {requested}s to plot one by one, so they are grouped by {granularity}.
+          </p>
+        )}
+        {trend.undated > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {trend.undated.toLocaleString()} review{trend.undated === 1 ? " has" : "s have"} no date and{" "}
+            {trend.undated === 1 ? "is" : "are"} not plotted; {trend.undated === 1 ? "it is" : "they are"} hidden from
+            the table while a time window is selected.
+          </p>
+        )}
+        {trend.outOfRange > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {trend.outOfRange.toLocaleString()} review{trend.outOfRange === 1 ? " has a date" : "s have dates"} before{" "}
+            {new Date(EARLIEST_REVIEW_DATE).getUTCFullYear()} or in the future and{" "}
+            {trend.outOfRange === 1 ? "is" : "are"} not plotted.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
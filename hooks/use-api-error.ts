@@ -0,0 +1,90 @@
+"use client"
+
+import { useCallback } from "react"
+import { useRouter } from "next/navigation"
+import { useToast } from "@/hooks/use-toast"
+import {
+  ApiError,
+  AuthenticationExpiredError,
+  NetworkError,
+  RateLimitedError,
+  SchemaMismatchError,
+  ServerError,
+  ValidationError,
+} from "@/lib/api-errors"
+
+export interface ErrorDescription {
+  title: string
+  description: string
+}
+
+/**
+ * Maps an error onto the title and description shown to the user.
+ * Each API error type gets its own wording; anything else falls back to the
+ * error message, or `fallback` when there is none.
+ */
+export function describeApiError(error: unknown, fallback: string): ErrorDescription {
+  if (error instanceof AuthenticationExpiredError) {
+    return { title: "Session expired", description: "Please log in again to continue." }
+  }
+  if (error instanceof ValidationError) {
+    const fields = Object.values(error.fieldErrors)
+    return {
+      title: "Invalid input",
+      description: fields.length > 0 ? fields.join(". ") : error.message,
+    }
+  }
+  if (error instanceof RateLimitedError) {
+    return {
+      title: "Too many requests",
+      description:
+        error.retryAfterSeconds !== undefined
+          ? `Please wait ${Math.ceil(error.retryAfterSeconds)} seconds before trying again.`
+          : "Please wait a moment before trying again.",
+    }
+  }
+  if (error instanceof ServerError) {
+    return {
+      title: "Server error",
+      description: `The analysis service failed to respond (HTTP ${error.status}). Please try again later.`,
+    }
+  }
+  if (error instanceof NetworkError) {
+    return {
+      title: "Connection problem",
+      description: "Unable to reach the server. Check your internet connection and try again.",
+    }
+  }
+  if (error instanceof SchemaMismatchError) {
+    return { title: "Unexpected response", description: error.message }
+  }
+  if (error instanceof ApiError || error instanceof Error) {
+    return { title: "Error", description: error.message || fallback }
+  }
+  return { title: "Error", description: fallback }
+}
+
+/**
+ * Returns a handler that reports an API error as a toast and, for expired
+ * sessions, sends the user to the login page.
+ *
+ * @example
+ * const handleApiError = useApiErrorHandler()
+ * try { ... } catch (error) { handleApiError(error, "Analysis failed") }
+ */
+export function useApiErrorHandler() {
+  const { toast } = useToast()
+  const router = useRouter()
+
+  return useCallback(
+    (error: unknown, fallback: string) => {
+      const { title, description } = describeApiError(error, fallback)
+      toast({ title, description, variant: "destructive" })
+
+      if (error instanceof AuthenticationExpiredError) {
+        router.push("/login")
+      }
+    },
+    [toast, router],
+  )
+}
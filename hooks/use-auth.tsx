@@ -2,7 +2,10 @@
 
 import { createContext, useContext, useEffect, useState, type ReactNode } from "react"
 import { AuthService, type User } from "@/lib/auth"
+import { ApiClient } from "@/lib/api-client"
+import { AuthenticationExpiredError } from "@/lib/api-errors"
 import { useToast } from "@/hooks/use-toast"
+import { describeApiError } from "@/hooks/use-api-error"
 
 interface AuthContextType {
   user: User | null
@@ -30,7 +33,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           const userData = await AuthService.getUserProfile()
           setUser(userData)
         } catch (error) {
-          AuthService.removeToken()
+          // Only a rejected session invalidates the token; keep it through outages
+          if (error instanceof AuthenticationExpiredError) {
+            AuthService.removeToken()
+          }
         }
       }
       setIsLoading(false)
@@ -39,6 +45,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     initAuth()
   }, [])
 
+  // Any authenticated request rejected with 401 ends the session here
+  useEffect(() => ApiClient.onUnauthorized(() => setUser(null)), [])
+
   const login = async (email: string, password: string) => {
     try {
       const { token, user: userData } = await AuthService.login(email, password)
@@ -50,8 +59,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       })
     } catch (error) {
       toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Login failed",
+        ...describeApiError(error, "Login failed"),
         variant: "destructive",
       })
       throw error
@@ -67,8 +75,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       })
     } catch (error) {
       toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Signup failed",
+        ...describeApiError(error, "Signup failed"),
         variant: "destructive",
       })
       throw error
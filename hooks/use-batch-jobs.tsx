@@ -0,0 +1,199 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from "react"
+import { useRouter } from "next/navigation"
+import { ToastAction } from "@/components/ui/toast"
+import { useAuth } from "@/hooks/use-auth"
+import { useToast } from "@/hooks/use-toast"
+import { describeApiError } from "@/hooks/use-api-error"
+import { AuthenticationExpiredError } from "@/lib/api-errors"
+import { BatchJobStore, pollBatchJob, toTrackedJob, type TrackedBatchJob } from "@/lib/batch-jobs"
+import { HistoryStore } from "@/lib/history-store"
+import { createLogger } from "@/lib/logger"
+import { isAbortError } from "@/lib/retry"
+import { SentimentAPI, type AnalyzeOptions, type BatchResult } from "@/lib/sentiment-api"
+
+const log = createLogger("batch-jobs")
+
+interface Waiter {
+  resolve: (result: BatchResult) => void
+  reject: (error: unknown) => void
+}
+
+interface BatchJobsContextType {
+  jobs: TrackedBatchJob[]
+  submit: (file: File, options?: Pick<AnalyzeOptions, "signal" | "onUploadProgress">) => Promise<TrackedBatchJob>
+  waitFor: (jobId: string, signal?: AbortSignal) => Promise<BatchResult>
+  forget: (jobId: string) => void
+}
+
+const BatchJobsContext = createContext<BatchJobsContextType | undefined>(undefined)
+
+function abortError(): DOMException {
+  return new DOMException("The operation was aborted.", "AbortError")
+}
+
+/**
+ * Tracks the user's asynchronous batch jobs for the whole app, so a job
+ * keeps being polled after its page is left and is resumed after a reload.
+ * A page that is still waiting for a job (see `waitFor`) handles its
+ * result; otherwise the result is saved to history and announced in a toast.
+ */
+export function BatchJobsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const userId = user?.id
+  const { toast } = useToast()
+  const router = useRouter()
+  const [jobs, setJobs] = useState<TrackedBatchJob[]>([])
+  // Poll loop per tracked job, and the pages waiting for each
+  const controllersRef = useRef(new Map<string, AbortController>())
+  const waitersRef = useRef(new Map<string, Set<Waiter>>())
+
+  const settle = useCallback((jobId: string) => {
+    controllersRef.current.delete(jobId)
+    setJobs((current) => current.filter((job) => job.jobId !== jobId))
+    const waiters = [...(waitersRef.current.get(jobId) ?? [])]
+    waitersRef.current.delete(jobId)
+    return waiters
+  }, [])
+
+  const track = useCallback(
+    (userId: string, job: TrackedBatchJob) => {
+      if (controllersRef.current.has(job.jobId)) return
+      const controller = new AbortController()
+      controllersRef.current.set(job.jobId, controller)
+      setJobs((current) => [...current.filter((tracked) => tracked.jobId !== job.jobId), job])
+
+      pollBatchJob(
+        job.jobId,
+        (status) => {
+          const tracked = toTrackedJob(status)
+          if (tracked.status !== "completed" && tracked.status !== "failed") BatchJobStore.save(userId, tracked)
+          setJobs((current) => current.map((existing) => (existing.jobId === job.jobId ? tracked : existing)))
+        },
+        controller.signal,
+      ).then(
+        (result) => {
+          BatchJobStore.remove(userId, job.jobId)
+          const waiters = settle(job.jobId)
+          log.info("Batch job completed", { jobId: job.jobId, count: result.reviews.length, waiting: waiters.length })
+          if (waiters.length > 0) {
+            waiters.forEach((waiter) => waiter.resolve(result))
+            return
+          }
+          // Nobody is waiting: the user left the page, so keep the result for them
+          HistoryStore.addBatch(userId, job.fileName, result).catch((error) =>
+            log.warn("Could not save batch to history", { error }),
+          )
+          toast({
+            title: "Success",
+            description: `${job.fileName}: ${result.reviews.length} reviews analyzed.`,
+            action: (
+              <ToastAction altText="View results in history" onClick={() => router.push("/history")}>
+                View
+              </ToastAction>
+            ),
+          })
+        },
+        (error) => {
+          if (isAbortError(error)) return
+          // A signed-out user's jobs stay stored and resume at the next login
+          if (!(error instanceof AuthenticationExpiredError)) BatchJobStore.remove(userId, job.jobId)
+          const waiters = settle(job.jobId)
+          log.error("Batch job failed", { jobId: job.jobId, error })
+          if (waiters.length > 0) {
+            waiters.forEach((waiter) => waiter.reject(error))
+            return
+          }
+          toast({
+            title: "Error",
+            description: `${job.fileName}: ${describeApiError(error, "Batch analysis failed").description}`,
+            variant: "destructive",
+          })
+        },
+      )
+    },
+    [settle, toast, router],
+  )
+
+  // Resume the stored jobs of whoever is signed in
+  useEffect(() => {
+    if (!userId) return
+    BatchJobStore.list(userId).forEach((job) => track(userId, job))
+
+    const controllers = controllersRef.current
+    const waiters = waitersRef.current
+    return () => {
+      controllers.forEach((controller) => controller.abort())
+      controllers.clear()
+      // The aborted polls never settle, so release the pages still waiting on them
+      waiters.forEach((jobWaiters) => jobWaiters.forEach((waiter) => waiter.reject(abortError())))
+      waiters.clear()
+      setJobs([])
+    }
+  }, [userId, track])
+
+  const submit = useCallback(
+    async (file: File, options: Pick<AnalyzeOptions, "signal" | "onUploadProgress"> = {}) => {
+      if (!userId) throw new AuthenticationExpiredError()
+      const job = toTrackedJob(await SentimentAPI.submitBatchJob(file, options))
+      BatchJobStore.save(userId, job)
+      track(userId, job)
+      return job
+    },
+    [userId, track],
+  )
+
+  const waitFor = useCallback((jobId: string, signal?: AbortSignal) => {
+    return new Promise<BatchResult>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError())
+        return
+      }
+      if (!controllersRef.current.has(jobId)) {
+        reject(new Error("This batch job is no longer being tracked"))
+        return
+      }
+      const waiter: Waiter = {
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort)
+          resolve(result)
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+      }
+      // Stop waiting, but keep polling: the job still finishes in the background
+      const onAbort = () => {
+        waitersRef.current.get(jobId)?.delete(waiter)
+        reject(abortError())
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+      const waiters = waitersRef.current.get(jobId) ?? new Set()
+      waiters.add(waiter)
+      waitersRef.current.set(jobId, waiters)
+    })
+  }, [])
+
+  const forget = useCallback(
+    (jobId: string) => {
+      controllersRef.current.get(jobId)?.abort()
+      if (userId) BatchJobStore.remove(userId, jobId)
+      settle(jobId).forEach((waiter) => waiter.reject(abortError()))
+    },
+    [userId, settle],
+  )
+
+  return (
+    <BatchJobsContext.Provider value={{ jobs, submit, waitFor, forget }}>{children}</BatchJobsContext.Provider>
+  )
+}
+
+export function useBatchJobs() {
+  const context = useContext(BatchJobsContext)
+  if (context === undefined) {
+    throw new Error("useBatchJobs must be used within a BatchJobsProvider")
+  }
+  return context
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import { useCallback, useRef, useState } from "react"
+import { CsvParseError } from "@/lib/csv"
+import { ReviewFileError } from "@/lib/review-formats"
+import { createLogger } from "@/lib/logger"
+import {
+  DEFAULT_IMPORT_OPTIONS,
+  guessColumnMapping,
+  guessReviewColumn,
+  readReviewFile,
+  type ColumnMapping,
+  type ImportOptions,
+  type ImportedTable,
+} from "@/lib/review-import"
+import type { BatchResult } from "@/lib/sentiment-api"
+
+const log = createLogger("batch-queue")
+
+/**
+ * - `parsing`: the file is being read in the browser
+ * - `invalid`: the file could not be parsed; `error` says why
+ * - `queued`: ready to analyze
+ * - `uploading` / `processing`: being analyzed
+ * - `done`: `result` holds the analysis
+ * - `failed`: the analysis failed; `error` says why and it can be retried
+ */
+export type QueueItemStatus = "parsing" | "invalid" | "queued" | "uploading" | "processing" | "done" | "failed"
+
+/**
+ * One file in the batch queue, with the column choices and import options
+ * used when it is analyzed.
+ */
+export interface QueueItem {
+  id: number
+  file: File
+  status: QueueItemStatus
+  table?: ImportedTable
+  reviewColumn: number
+  mapping: ColumnMapping
+  options: ImportOptions
+  result?: BatchResult
+  // History record the result was saved as
+  historyId?: string
+  error?: string
+}
+
+export type QueueItemSettings = Pick<QueueItem, "reviewColumn" | "mapping" | "options">
+
+export interface BatchQueueState {
+  items: QueueItem[]
+  activeId: number | null
+  setActiveId: (id: number | null) => void
+  add: (files: File[]) => void
+  remove: (id: number) => void
+  clear: () => void
+  update: (id: number, patch: Partial<QueueItem>) => void
+}
+
+/**
+ * Files waiting to be analyzed. Each added file is parsed in the browser
+ * and given guessed column choices; `activeId` is the file whose preview
+ * and settings are shown (null falls back to the first file).
+ */
+export function useBatchQueue(): BatchQueueState {
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [activeId, setActiveId] = useState<number | null>(null)
+  const nextIdRef = useRef(0)
+
+  const update = useCallback((id: number, patch: Partial<QueueItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+  }, [])
+
+  const parse = useCallback(
+    async (item: QueueItem) => {
+      try {
+        const table = await readReviewFile(item.file)
+        log.info("Parsed file", {
+          file: item.file.name,
+          rows: table.rows.length,
+          columns: table.headers.length,
+          format: table.format,
+          encoding: table.encoding,
+        })
+        const reviewColumn = guessReviewColumn(table)
+        update(item.id, {
+          status: "queued",
+          table,
+          reviewColumn,
+          mapping: guessColumnMapping(table.headers, reviewColumn),
+        })
+      } catch (error) {
+        log.warn("Could not parse file", { file: item.file.name, error })
+        update(item.id, {
+          status: "invalid",
+          error:
+            error instanceof CsvParseError || error instanceof ReviewFileError
+              ? error.message
+              : "The file could not be read.",
+        })
+      }
+    },
+    [update],
+  )
+
+  const add = useCallback(
+    (files: File[]) => {
+      const added = files.map(
+        (file): QueueItem => ({
+          id: nextIdRef.current++,
+          file,
+          status: "parsing",
+          reviewColumn: 0,
+          mapping: {},
+          options: DEFAULT_IMPORT_OPTIONS,
+        }),
+      )
+      if (added.length === 0) return
+      setItems((current) => [...current, ...added])
+      setActiveId((current) => current ?? added[0].id)
+      // One file at a time keeps memory flat when a dozen large files are dropped
+      void added.reduce((previous, item) => previous.then(() => parse(item)), Promise.resolve())
+    },
+    [parse],
+  )
+
+  const remove = useCallback((id: number) => {
+    setItems((current) => current.filter((item) => item.id !== id))
+    setActiveId((active) => (active === id ? null : active))
+  }, [])
+
+  const clear = useCallback(() => {
+    setItems([])
+    setActiveId(null)
+  }, [])
+
+  return { items, activeId, setActiveId, add, remove, clear, update }
+}
@@ -0,0 +1,228 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { describeApiError } from "@/hooks/use-api-error"
+import {
+  analyzeChunk,
+  mergeChunkResults,
+  splitIntoChunks,
+  type BatchChunk,
+  type ChunkResult,
+  type ChunkedBatchOptions,
+} from "@/lib/chunked-batch"
+import type { BatchProgress } from "@/lib/batch-progress"
+import { createLogger } from "@/lib/logger"
+import { isAbortError } from "@/lib/retry"
+import type { BatchResult } from "@/lib/sentiment-api"
+
+const log = createLogger("chunked-batch")
+
+/**
+ * - `running`: chunks are being analyzed
+ * - `paused`: stopped by the user; interrupted chunks are pending again
+ * - `failed`: every chunk has been tried and at least one failed
+ * - `done`: all chunks succeeded and the merged result was delivered
+ */
+export type ChunkedBatchStatus = "idle" | "running" | "paused" | "failed" | "done"
+
+interface ChunkedJob {
+  reviews: string[]
+  fileName: string
+  options: ChunkedBatchOptions
+  chunks: BatchChunk[]
+  results: Map<number, ChunkResult>
+  controller: AbortController
+  isRunning: boolean
+  resolve: (result: BatchResult) => void
+  reject: (error: unknown) => void
+}
+
+interface JobTiming {
+  startedAt: number
+  resumedAt: number
+  completedAtResume: number
+}
+
+function completedReviews(chunks: BatchChunk[]): number {
+  return chunks.reduce((sum, chunk) => sum + chunk.processed, 0)
+}
+
+export interface ChunkedBatchState {
+  status: ChunkedBatchStatus
+  chunks: BatchChunk[]
+  progress: BatchProgress | null
+  start: (reviews: string[], fileName: string, options: ChunkedBatchOptions) => Promise<BatchResult>
+  pause: () => void
+  resume: () => void
+  retryFailed: () => void
+  cancel: () => void
+}
+
+/**
+ * Runs a batch as a queue of chunks with at most `options.concurrency` in
+ * flight. Pausing aborts the chunks in flight and returns them to the
+ * queue; completed chunks are kept.
+ *
+ * `start` resolves with the merged result once every chunk has succeeded.
+ * While chunks have failed it stays pending, so the caller waits for the
+ * user to retry; `cancel` rejects it with an AbortError.
+ */
+export function useChunkedBatch(): ChunkedBatchState {
+  const [status, setStatus] = useState<ChunkedBatchStatus>("idle")
+  const [chunks, setChunks] = useState<BatchChunk[]>([])
+  const [timing, setTiming] = useState<JobTiming | null>(null)
+  const jobRef = useRef<ChunkedJob | null>(null)
+
+  // Abort whatever is in flight when the page goes away
+  useEffect(() => () => jobRef.current?.controller.abort(), [])
+
+  const updateChunk = useCallback((job: ChunkedJob, id: number, patch: Partial<BatchChunk>) => {
+    job.chunks = job.chunks.map((chunk) => (chunk.id === id ? { ...chunk, ...patch } : chunk))
+    if (jobRef.current === job) setChunks(job.chunks)
+  }, [])
+
+  const run = useCallback(
+    async (job: ChunkedJob) => {
+      const controller = new AbortController()
+      job.controller = controller
+      job.isRunning = true
+      setStatus("running")
+      // Measure the rate from here so a pause does not drag the estimate down
+      const now = Date.now()
+      setTiming((current) => ({
+        startedAt: current?.startedAt ?? now,
+        resumedAt: now,
+        completedAtResume: completedReviews(job.chunks),
+      }))
+
+      const worker = async () => {
+        while (!controller.signal.aborted) {
+          const chunk = job.chunks.find((candidate) => candidate.status === "pending")
+          if (!chunk) return
+          updateChunk(job, chunk.id, { status: "running", processed: 0, error: undefined })
+          try {
+            const result = await analyzeChunk(
+              job.reviews,
+              chunk,
+              job.fileName,
+              job.options.transport,
+              (processed) => updateChunk(job, chunk.id, { processed }),
+              controller.signal,
+            )
+            job.results.set(chunk.id, result)
+            updateChunk(job, chunk.id, { status: "done", processed: chunk.end - chunk.start })
+          } catch (error) {
+            if (isAbortError(error)) {
+              updateChunk(job, chunk.id, { status: "pending", processed: 0 })
+              return
+            }
+            log.warn("Chunk failed", { chunk: chunk.id, error })
+            updateChunk(job, chunk.id, {
+              status: "failed",
+              error: describeApiError(error, "Analysis failed").description,
+            })
+          }
+        }
+      }
+
+      const pending = job.chunks.filter((chunk) => chunk.status === "pending").length
+      await Promise.all(Array.from({ length: Math.min(job.options.concurrency, pending) }, worker))
+      job.isRunning = false
+
+      // Cancelled, or replaced by a new job
+      if (jobRef.current !== job) return
+      if (controller.signal.aborted) {
+        setStatus("paused")
+        return
+      }
+      const failed = job.chunks.filter((chunk) => chunk.status === "failed").length
+      if (failed > 0) {
+        log.warn("Chunked batch finished with failures", { failed, chunks: job.chunks.length })
+        setStatus("failed")
+        return
+      }
+
+      const result = mergeChunkResults(
+        job.fileName,
+        job.chunks.map((chunk) => job.results.get(chunk.id)!),
+      )
+      log.info("Chunked batch complete", { chunks: job.chunks.length, reviews: result.reviews.length })
+      setStatus("done")
+      job.resolve(result)
+    },
+    [updateChunk],
+  )
+
+  const start = useCallback(
+    (reviews: string[], fileName: string, options: ChunkedBatchOptions) => {
+      const previous = jobRef.current
+      previous?.controller.abort()
+      previous?.reject(new DOMException("The operation was aborted.", "AbortError"))
+
+      return new Promise<BatchResult>((resolve, reject) => {
+        const job: ChunkedJob = {
+          reviews,
+          fileName,
+          options,
+          chunks: splitIntoChunks(reviews.length, options.chunkSize),
+          results: new Map(),
+          controller: new AbortController(),
+          isRunning: false,
+          resolve,
+          reject,
+        }
+        jobRef.current = job
+        setChunks(job.chunks)
+        setTiming(null)
+        log.info("Starting chunked batch", { reviews: reviews.length, chunks: job.chunks.length, ...options })
+        void run(job)
+      })
+    },
+    [run],
+  )
+
+  const pause = useCallback(() => {
+    jobRef.current?.controller.abort()
+  }, [])
+
+  const resume = useCallback(() => {
+    const job = jobRef.current
+    if (job && !job.isRunning) void run(job)
+  }, [run])
+
+  const retryFailed = useCallback(() => {
+    const job = jobRef.current
+    if (!job) return
+    job.chunks = job.chunks.map((chunk) =>
+      chunk.status === "failed" ? { ...chunk, status: "pending", processed: 0, error: undefined } : chunk,
+    )
+    setChunks(job.chunks)
+    // Workers still running pick the chunks up from the queue
+    if (!job.isRunning) void run(job)
+  }, [run])
+
+  const cancel = useCallback(() => {
+    const job = jobRef.current
+    job?.controller.abort()
+    job?.reject(new DOMException("The operation was aborted.", "AbortError"))
+    jobRef.current = null
+    setChunks([])
+    setTiming(null)
+    setStatus("idle")
+  }, [])
+
+  const progress = useMemo((): BatchProgress | null => {
+    if (!timing) return null
+    return {
+      phase: "processing",
+      startedAt: timing.startedAt,
+      phaseStartedAt: timing.resumedAt,
+      completedReviews: completedReviews(chunks),
+      completedAtPhaseStart: timing.completedAtResume,
+      totalReviews: chunks.reduce((sum, chunk) => sum + chunk.end - chunk.start, 0),
+      tracksReviews: true,
+    }
+  }, [chunks, timing])
+
+  return { status, chunks, progress, start, pause, resume, retryFailed, cancel }
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { DEFAULT_NEUTRAL_THRESHOLD, NEUTRAL_THRESHOLD_RANGE } from "@/lib/sentiment"
+
+interface SentimentSettings {
+  neutralThreshold: number
+}
+
+interface SentimentSettingsContextType extends SentimentSettings {
+  setNeutralThreshold: (threshold: number) => void
+  resetSettings: () => void
+}
+
+const SETTINGS_KEY_PREFIX = "sentiment_analyzer_settings"
+
+const DEFAULT_SETTINGS: SentimentSettings = {
+  neutralThreshold: DEFAULT_NEUTRAL_THRESHOLD,
+}
+
+const SentimentSettingsContext = createContext<SentimentSettingsContextType | undefined>(undefined)
+
+function clampThreshold(threshold: number): number {
+  const { min, max } = NEUTRAL_THRESHOLD_RANGE
+  return Math.min(max, Math.max(min, Math.round(threshold * 100) / 100))
+}
+
+// Settings are stored per user so a shared browser keeps each person's preferences
+function storageKey(userId: string) {
+  return `${SETTINGS_KEY_PREFIX}:${userId}`
+}
+
+function loadSettings(userId: string): SentimentSettings {
+  if (typeof window === "undefined") return DEFAULT_SETTINGS
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "{}")
+    return {
+      neutralThreshold:
+        typeof stored.neutralThreshold === "number"
+          ? clampThreshold(stored.neutralThreshold)
+          : DEFAULT_SETTINGS.neutralThreshold,
+    }
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+function saveSettings(userId: string, settings: SentimentSettings) {
+  if (typeof window === "undefined") return
+  localStorage.setItem(storageKey(userId), JSON.stringify(settings))
+}
+
+export function SentimentSettingsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const userId = user?.id
+  const [settings, setSettings] = useState<SentimentSettings>(DEFAULT_SETTINGS)
+
+  useEffect(() => {
+    setSettings(userId ? loadSettings(userId) : DEFAULT_SETTINGS)
+  }, [userId])
+
+  const update = useCallback(
+    (next: SentimentSettings) => {
+      setSettings(next)
+      if (userId) saveSettings(userId, next)
+    },
+    [userId],
+  )
+
+  const setNeutralThreshold = useCallback(
+    (threshold: number) => update({ ...settings, neutralThreshold: clampThreshold(threshold) }),
+    [settings, update],
+  )
+
+  const resetSettings = useCallback(() => update(DEFAULT_SETTINGS), [update])
+
+  return (
+    <SentimentSettingsContext.Provider value={{ ...settings, setNeutralThreshold, resetSettings }}>
+      {children}
+    </SentimentSettingsContext.Provider>
+  )
+}
+
+export function useSentimentSettings() {
+  const context = useContext(SentimentSettingsContext)
+  if (context === undefined) {
+    throw new Error("useSentimentSettings must be used within a SentimentSettingsProvider")
+  }
+  return context
+}
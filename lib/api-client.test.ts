@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { z } from "zod"
+import { ApiClient } from "./api-client"
+import {
+  ApiError,
+  AuthenticationExpiredError,
+  NetworkError,
+  RateLimitedError,
+  SchemaMismatchError,
+  ServerError,
+  ValidationError,
+} from "./api-errors"
+import { TokenStorage } from "./token-storage"
+
+const schema = z.object({ ok: z.boolean() })
+
+function respond(status: number, body: unknown, headers: Record<string, string> = {}) {
+  vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(JSON.stringify(body), { status, headers })))
+}
+
+// Failed requests are logged; keep the test output clean
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("ApiClient errors", () => {
+  it.each([
+    [401, {}, AuthenticationExpiredError],
+    [403, {}, ApiError],
+    [422, {}, ValidationError],
+    [429, { "Retry-After": "7" }, RateLimitedError],
+    [502, {}, ServerError],
+  ])("maps a %i response to %o", async (status, headers: Record<string, string>, errorClass) => {
+    vi.spyOn(TokenStorage, "get").mockReturnValue("token")
+    respond(status, { message: "Nope" }, headers)
+    const error = await ApiClient.get("/api/test", schema).catch((error: unknown) => error)
+    expect((error as object).constructor).toBe(errorClass)
+    expect((error as ApiError).status).toBe(status)
+    if (error instanceof RateLimitedError) expect(error.retryAfterSeconds).toBe(7)
+  })
+
+  it("reports a failed fetch as a NetworkError", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed to fetch")))
+    const error = await ApiClient.get("/api/test", schema, { auth: false }).catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(NetworkError)
+    expect((error as NetworkError).status).toBe(0)
+  })
+
+  it("reports a body of the wrong shape as a SchemaMismatchError with its path", async () => {
+    respond(200, { ok: "yes" })
+    const error = await ApiClient.get("/api/test", schema, { auth: false }).catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(SchemaMismatchError)
+    expect((error as SchemaMismatchError).path).toBe("ok")
+  })
+})
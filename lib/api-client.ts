@@ -0,0 +1,272 @@
+/**
+ * HTTP Client Module
+ *
+ * Single entry point for every request the frontend makes to the backend.
+ * API modules describe *what* they call; this module decides *how* the call
+ * is made, so a change to the backend contract only needs to happen here.
+ *
+ * Features:
+ * - Base URL resolution from environment variables (or the local mock backend)
+ * - Bearer token injection for authenticated endpoints
+ * - JSON and FormData request bodies
+ * - Typed errors (see ./api-errors) carrying the HTTP status and server message
+ * - Runtime validation of every response body against its zod schema
+ * - Opt-in retry with jittered exponential backoff and AbortSignal support
+ * - Upload progress events for large request bodies (sent over XHR, since
+ *   fetch cannot report them)
+ * - One shared 401 handler that clears the session and notifies listeners
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import type { ZodType, ZodTypeDef } from "zod"
+import { AuthenticationExpiredError, NetworkError, SchemaMismatchError, createApiError } from "./api-errors"
+import type { UploadProgress } from "./batch-progress"
+import { createLogger } from "./logger"
+import { isAbortError, withRetry, type RetryOptions } from "./retry"
+import { TokenStorage } from "./token-storage"
+
+// API base URL with environment variable fallback. With the mock backend
+// enabled, requests go to the same-origin route handlers under app/api.
+export const API_BASE_URL =
+  process.env.NEXT_PUBLIC_USE_MOCK_API === "true"
+    ? ""
+    : process.env.NEXT_PUBLIC_API_BASE_URL || "https://ox4zaij71h.execute-api.us-west-1.amazonaws.com/prod"
+
+/**
+ * Options accepted by {@link ApiClient.request}.
+ *
+ * @property method - HTTP method, defaults to GET (or POST when a body is given)
+ * @property body - Plain objects are sent as JSON, FormData is sent as multipart
+ * @property auth - Attach the stored bearer token; defaults to true
+ * @property headers - Extra headers merged over the defaults
+ * @property signal - Optional AbortSignal to cancel the request (and any pending retry)
+ * @property retry - Retry transient failures; `true` uses the defaults. Only
+ *   enable for requests that are safe to repeat.
+ * @property onUploadProgress - Called as the request body is sent; restarts
+ *   from zero on each retry
+ */
+export interface ApiRequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+  body?: Record<string, unknown> | unknown[] | FormData
+  auth?: boolean
+  headers?: Record<string, string>
+  signal?: AbortSignal
+  retry?: boolean | Partial<RetryOptions>
+  onUploadProgress?: (progress: UploadProgress) => void
+}
+
+/** Schema a response body is validated (and normalized) against. */
+export type ResponseSchema<T> = ZodType<T, ZodTypeDef, unknown>
+
+type UnauthorizedListener = () => void
+
+const log = createLogger("api")
+
+/**
+ * Pulls a human readable message out of an error response body.
+ * The backend is not consistent about the field name, so check the usual ones.
+ */
+function extractServerMessage(body: unknown): string | undefined {
+  if (typeof body === "string") return body.trim() || undefined
+  if (body && typeof body === "object") {
+    const record = body as Record<string, unknown>
+    for (const key of ["message", "error", "detail"]) {
+      if (typeof record[key] === "string" && record[key]) return record[key] as string
+    }
+  }
+  return undefined
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  if (!text) return undefined
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers()
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(":")
+    if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim())
+  }
+  return headers
+}
+
+/**
+ * `fetch` over XMLHttpRequest, for requests that report upload progress.
+ * Resolves with a standard Response and rejects like fetch does: a
+ * TypeError when the server cannot be reached, an AbortError on abort.
+ */
+function fetchWithUploadProgress(
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: XMLHttpRequestBodyInit; signal?: AbortSignal },
+  onUploadProgress: (progress: UploadProgress) => void,
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const { signal } = init
+    if (signal?.aborted) {
+      reject(new DOMException("The operation was aborted.", "AbortError"))
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    const onAbort = () => xhr.abort()
+    xhr.open(init.method, url)
+    for (const [name, value] of Object.entries(init.headers)) xhr.setRequestHeader(name, value)
+
+    xhr.upload.onprogress = (event) =>
+      onUploadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : undefined })
+    // The body is fully sent; report it as complete even if the size was unknown
+    xhr.upload.onload = (event) => onUploadProgress({ loaded: event.loaded, total: event.loaded })
+    xhr.onload = () => {
+      resolve(
+        new Response(xhr.responseText || null, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+        }),
+      )
+    }
+    xhr.onerror = () => reject(new TypeError("Network request failed"))
+    xhr.onabort = () => reject(new DOMException("The operation was aborted.", "AbortError"))
+    xhr.onloadend = () => signal?.removeEventListener("abort", onAbort)
+
+    signal?.addEventListener("abort", onAbort, { once: true })
+    xhr.send(init.body ?? null)
+  })
+}
+
+export class ApiClient {
+  private static unauthorizedListeners = new Set<UnauthorizedListener>()
+
+  /**
+   * Resolves an API path against the configured base URL.
+   *
+   * @param path - Path beginning with a slash, e.g. `/api/sentiment`
+   */
+  static resolveUrl(path: string): string {
+    return `${API_BASE_URL}${path}`
+  }
+
+  /**
+   * Registers a callback fired whenever an authenticated request is rejected
+   * with 401. The token has already been cleared when listeners run.
+   *
+   * @returns Function that unregisters the listener
+   */
+  static onUnauthorized(listener: UnauthorizedListener): () => void {
+    this.unauthorizedListeners.add(listener)
+    return () => {
+      this.unauthorizedListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Performs a request and validates the response body.
+   *
+   * @param path - Path beginning with a slash, e.g. `/api/sentiment`
+   * @param schema - zod schema the successful response body must satisfy
+   * @param options - Method, body, auth, retry and cancellation options
+   * @throws {SchemaMismatchError} When the body does not match `schema`
+   */
+  static async request<T>(path: string, schema: ResponseSchema<T>, options: ApiRequestOptions = {}): Promise<T> {
+    const { retry } = options
+    if (!retry) return this.send(path, schema, options)
+
+    return withRetry(() => this.send(path, schema, options), retry === true ? {} : retry, options.signal)
+  }
+
+  static get<T>(
+    path: string,
+    schema: ResponseSchema<T>,
+    options: Omit<ApiRequestOptions, "method" | "body"> = {},
+  ): Promise<T> {
+    return this.request(path, schema, { ...options, method: "GET" })
+  }
+
+  static post<T>(
+    path: string,
+    body: ApiRequestOptions["body"],
+    schema: ResponseSchema<T>,
+    options: Omit<ApiRequestOptions, "method" | "body"> = {},
+  ): Promise<T> {
+    return this.request(path, schema, { ...options, method: "POST", body })
+  }
+
+  /** Performs a single attempt of {@link ApiClient.request}. */
+  private static async send<T>(path: string, schema: ResponseSchema<T>, options: ApiRequestOptions): Promise<T> {
+    const { body, auth = true, signal, onUploadProgress } = options
+    const method = options.method ?? (body === undefined ? "GET" : "POST")
+    const headers: Record<string, string> = {}
+
+    if (auth) {
+      const token = TokenStorage.get()
+      if (!token) throw new AuthenticationExpiredError("Authentication required. Please log in.")
+      headers.Authorization = `Bearer ${token}`
+    }
+
+    let payload: XMLHttpRequestBodyInit | undefined
+    if (body instanceof FormData) {
+      // Let the browser set the multipart boundary
+      payload = body
+    } else if (body !== undefined) {
+      headers["Content-Type"] = "application/json"
+      payload = JSON.stringify(body)
+    }
+
+    const startedAt = Date.now()
+    let response: Response
+    try {
+      const init = { method, headers: { ...headers, ...options.headers }, body: payload, signal }
+      response = onUploadProgress
+        ? await fetchWithUploadProgress(this.resolveUrl(path), init, onUploadProgress)
+        : await fetch(this.resolveUrl(path), init)
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      log.warn("Request could not reach the server", { method, path, error })
+      throw new NetworkError()
+    }
+
+    log.debug("Response received", { method, path, status: response.status, durationMs: Date.now() - startedAt })
+
+    const responseBody = await readBody(response)
+
+    if (!response.ok) {
+      const serverMessage = extractServerMessage(responseBody)
+
+      if (response.status === 401 && auth) {
+        log.info("Session rejected, logging out", { method, path })
+        this.handleUnauthorized()
+        throw new AuthenticationExpiredError(undefined, serverMessage, responseBody)
+      }
+
+      throw createApiError(response.status, serverMessage, responseBody, response.headers.get("Retry-After"))
+    }
+
+    const parsed = schema.safeParse(responseBody)
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      log.error("Response failed schema validation", { method, path, issuePath: issue.path.join("."), issue: issue.message })
+      throw new SchemaMismatchError(
+        response.status,
+        `${method} ${path}`,
+        issue.path.join("."),
+        issue.message,
+        responseBody,
+      )
+    }
+    return parsed.data
+  }
+
+  private static handleUnauthorized(): void {
+    TokenStorage.remove()
+    this.unauthorizedListeners.forEach((listener) => listener())
+  }
+}
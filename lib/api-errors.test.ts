@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  ApiError,
+  RateLimitedError,
+  ServerError,
+  ValidationError,
+  createApiError,
+  parseRetryAfter,
+} from "./api-errors"
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds and HTTP dates", () => {
+    vi.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") })
+    expect(parseRetryAfter("120")).toBe(120)
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:30 GMT")).toBe(30)
+  })
+
+  it("never returns a negative wait", () => {
+    vi.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") })
+    expect(parseRetryAfter("-5")).toBe(0)
+    expect(parseRetryAfter("Sun, 31 Dec 2023 23:59:00 GMT")).toBe(0)
+  })
+
+  it("ignores a missing or unreadable header", () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter("")).toBeUndefined()
+    expect(parseRetryAfter("soon")).toBeUndefined()
+  })
+})
+
+describe("createApiError", () => {
+  it.each([
+    [400, null, ValidationError, undefined],
+    [409, null, ValidationError, undefined],
+    [422, null, ValidationError, undefined],
+    [429, "30", RateLimitedError, 30],
+    [429, null, RateLimitedError, undefined],
+    [500, null, ServerError, undefined],
+    [503, "5", ServerError, 5],
+    [504, null, ServerError, undefined],
+    [404, null, ApiError, undefined],
+  ])("maps %i (Retry-After %s) to %o", (status, retryAfter, errorClass, retryAfterSeconds) => {
+    const error = createApiError(status, undefined, undefined, retryAfter)
+    expect(error.constructor).toBe(errorClass)
+    expect(error.status).toBe(status)
+    if (error instanceof RateLimitedError || error instanceof ServerError) {
+      expect(error.retryAfterSeconds).toBe(retryAfterSeconds)
+    }
+  })
+
+  it("reads a Retry-After date on a 429", () => {
+    vi.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") })
+    const error = createApiError(429, undefined, undefined, "Mon, 01 Jan 2024 00:01:00 GMT")
+    expect(error).toBeInstanceOf(RateLimitedError)
+    expect((error as RateLimitedError).retryAfterSeconds).toBe(60)
+  })
+
+  it("keeps the server message and field errors of a validation error", () => {
+    const body = { message: "Invalid input", detail: [{ loc: ["body", "text"], msg: "Text is required" }] }
+    const error = createApiError(422, "Invalid input", body, null)
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error.message).toBe("Invalid input")
+    expect((error as ValidationError).fieldErrors).toEqual({ text: "Text is required" })
+  })
+})
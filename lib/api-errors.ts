@@ -0,0 +1,197 @@
+/**
+ * API Error Types
+ *
+ * Typed errors raised by the HTTP client. Callers branch on the class of an
+ * error (`instanceof`) instead of matching on message text, and each class
+ * carries the data its UI treatment needs (field details, retry delay, the
+ * offending response path, ...).
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+/**
+ * Base class for every failed API call.
+ *
+ * `status` is the HTTP status code, or 0 when the server could not be
+ * reached at all. `serverMessage` is the message extracted from the error
+ * body when the backend supplied one.
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly serverMessage?: string
+  readonly body?: unknown
+
+  constructor(status: number, message: string, serverMessage?: string, body?: unknown) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.serverMessage = serverMessage
+    this.body = body
+  }
+}
+
+/** The stored session is missing, expired or was rejected (401). */
+export class AuthenticationExpiredError extends ApiError {
+  constructor(message = "Session expired. Please log in again.", serverMessage?: string, body?: unknown) {
+    super(401, message, serverMessage, body)
+    this.name = "AuthenticationExpiredError"
+  }
+}
+
+/**
+ * The request was rejected as invalid (400, 409, 422).
+ * `fieldErrors` maps a request field name to the problem with it.
+ */
+export class ValidationError extends ApiError {
+  readonly fieldErrors: Record<string, string>
+
+  constructor(
+    status: number,
+    message: string,
+    fieldErrors: Record<string, string> = {},
+    serverMessage?: string,
+    body?: unknown,
+  ) {
+    super(status, message, serverMessage, body)
+    this.name = "ValidationError"
+    this.fieldErrors = fieldErrors
+  }
+}
+
+/** Too many requests (429). `retryAfterSeconds` comes from the Retry-After header. */
+export class RateLimitedError extends ApiError {
+  readonly retryAfterSeconds?: number
+
+  constructor(message: string, retryAfterSeconds?: number, serverMessage?: string, body?: unknown) {
+    super(429, message, serverMessage, body)
+    this.name = "RateLimitedError"
+    this.retryAfterSeconds = retryAfterSeconds
+  }
+}
+
+/** The backend failed to process the request (5xx). */
+export class ServerError extends ApiError {
+  readonly retryAfterSeconds?: number
+
+  constructor(status: number, message: string, retryAfterSeconds?: number, serverMessage?: string, body?: unknown) {
+    super(status, message, serverMessage, body)
+    this.name = "ServerError"
+    this.retryAfterSeconds = retryAfterSeconds
+  }
+}
+
+/** The request never reached the backend (offline, DNS, CORS, ...). */
+export class NetworkError extends ApiError {
+  constructor(message = "Network error: Unable to connect to the server") {
+    super(0, message)
+    this.name = "NetworkError"
+  }
+}
+
+/**
+ * The backend answered successfully but the body did not match the expected
+ * shape. `path` points at the offending field, e.g. `reviews.3.confidence`.
+ */
+export class SchemaMismatchError extends ApiError {
+  readonly endpoint: string
+  readonly path: string
+
+  constructor(status: number, endpoint: string, path: string, detail: string, body?: unknown) {
+    super(status, `Backend returned unexpected shape from ${endpoint} at "${path || "(root)"}": ${detail}`, undefined, body)
+    this.name = "SchemaMismatchError"
+    this.endpoint = endpoint
+    this.path = path
+  }
+}
+
+/**
+ * Parses a Retry-After header, which may be delta-seconds or an HTTP date.
+ *
+ * @returns Seconds to wait, or undefined when the header is absent or invalid
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+  const date = Date.parse(header)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+/**
+ * Extracts per-field problems from an error body. Supports a plain
+ * `{ errors: { field: message } }` map and FastAPI-style
+ * `{ detail: [{ loc: [..., field], msg }] }` lists.
+ */
+export function extractFieldErrors(body: unknown): Record<string, string> {
+  const fieldErrors: Record<string, string> = {}
+  if (!body || typeof body !== "object") return fieldErrors
+  const record = body as Record<string, unknown>
+
+  const errors = record.errors ?? record.fields
+  if (errors && typeof errors === "object" && !Array.isArray(errors)) {
+    for (const [field, message] of Object.entries(errors as Record<string, unknown>)) {
+      if (typeof message === "string") fieldErrors[field] = message
+      else if (Array.isArray(message) && typeof message[0] === "string") fieldErrors[field] = message[0]
+    }
+  }
+
+  if (Array.isArray(record.detail)) {
+    for (const item of record.detail) {
+      if (!item || typeof item !== "object") continue
+      const { loc, msg } = item as { loc?: unknown; msg?: unknown }
+      if (Array.isArray(loc) && typeof msg === "string") {
+        fieldErrors[String(loc[loc.length - 1])] = msg
+      }
+    }
+  }
+
+  return fieldErrors
+}
+
+/**
+ * Builds the typed error matching a non-2xx response.
+ *
+ * @param status - HTTP status code
+ * @param serverMessage - Message extracted from the error body, if any
+ * @param body - Parsed error body
+ * @param retryAfter - Raw Retry-After header value
+ */
+export function createApiError(
+  status: number,
+  serverMessage: string | undefined,
+  body: unknown,
+  retryAfter: string | null,
+): ApiError {
+  const retryAfterSeconds = parseRetryAfter(retryAfter)
+
+  if (status === 400 || status === 409 || status === 422) {
+    return new ValidationError(
+      status,
+      serverMessage || "The request was invalid. Please check your input.",
+      extractFieldErrors(body),
+      serverMessage,
+      body,
+    )
+  }
+  if (status === 429) {
+    return new RateLimitedError(
+      serverMessage || "Too many requests. Please slow down.",
+      retryAfterSeconds,
+      serverMessage,
+      body,
+    )
+  }
+  if (status >= 500) {
+    return new ServerError(
+      status,
+      serverMessage || "Server error. Please try again later.",
+      retryAfterSeconds,
+      serverMessage,
+      body,
+    )
+  }
+  return new ApiError(status, serverMessage || `Request failed with status ${status}`, serverMessage, body)
+}
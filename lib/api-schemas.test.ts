@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { batchResultSchema, sentimentResultSchema } from "./api-schemas"
+
+const batch = (sentiment: string) => ({
+  file_name: "reviews.csv",
+  processing_timestamp: "2024-01-01T00:00:00Z",
+  reviews: [
+    { sentiment: "POSITIVE", confidence: 0.9, text: "Great" },
+    { sentiment, confidence: 0.8, text: "Hmm" },
+  ],
+  summary: { positive: 1, negative: 0, neutral: 1, total_reviews: 2 },
+})
+
+describe("sentimentLabelSchema", () => {
+  it("normalizes labels in any case", () => {
+    expect(sentimentResultSchema.parse({ sentiment: "neg", confidence: 0.7 }).sentiment).toBe("Negative")
+  })
+
+  it("fails on an unknown label with the path to it", () => {
+    const parsed = batchResultSchema.safeParse(batch("MIXED"))
+    expect(parsed.success).toBe(false)
+    const [issue] = parsed.error!.issues
+    expect(issue.path).toEqual(["reviews", 1, "sentiment"])
+    expect(issue.message).toBe('Unknown sentiment label "MIXED"')
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * API Response Schemas
+ *
+ * zod schemas for every backend response. The HTTP client validates each
+ * response against its schema before handing it to the caller, so the rest
+ * of the app can trust the types below instead of casting raw JSON.
+ *
+ * The schemas also normalize the backend's inconsistencies in one place:
+ * - Sentiment labels in any case ("POSITIVE", "pos", "Negative")
+ * - Review text under `original_text`, `text` or `review`
+ * - Missing review indexes (falls back to the row position)
+ * - Numeric or string user ids
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { z } from "zod"
+import { parseSentimentLabel } from "./sentiment"
+
+/** Model sentiment label, normalized to title case. */
+export const sentimentLabelSchema = z.string().transform((value, ctx) => {
+  const label = parseSentimentLabel(value)
+  if (!label) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown sentiment label "${value}"` })
+    return z.NEVER
+  }
+  return label
+})
+
+const confidenceSchema = z.number().min(0).max(1)
+
+export const sentimentResultSchema = z
+  .object({
+    sentiment: sentimentLabelSchema,
+    confidence: confidenceSchema,
+    review: z.string().optional(),
+    text: z.string().optional(),
+  })
+  .transform(({ sentiment, confidence, review, text }) => ({
+    sentiment,
+    confidence,
+    review: review ?? text,
+  }))
+
+const batchReviewSchema = z.object({
+  sentiment: sentimentLabelSchema,
+  confidence: confidenceSchema,
+  original_text: z.string().optional(),
+  text: z.string().optional(),
+  review: z.string().optional(),
+  index: z.number().int().nonnegative().optional(),
+  processed_text: z.string().optional(),
+})
+
+const batchSummarySchema = z.object({
+  positive: z.number(),
+  negative: z.number(),
+  neutral: z.number(),
+  positive_percentage: z.number().optional(),
+  negative_percentage: z.number().optional(),
+  neutral_percentage: z.number().optional(),
+  total_reviews: z.number(),
+})
+
+export const batchResultSchema = z.object({
+  file_name: z.string(),
+  message: z.string().optional(),
+  processing_timestamp: z.string(),
+  reviews: z.array(batchReviewSchema).transform((reviews) =>
+    reviews.map((item, position) => ({
+      index: item.index ?? position,
+      review: item.original_text ?? item.text ?? item.review ?? "",
+      sentiment: item.sentiment,
+      confidence: item.confidence,
+      processed_text: item.processed_text,
+    })),
+  ),
+  s3_key: z.string().optional(),
+  summary: batchSummarySchema.optional(),
+})
+
+/** A finished batch as listed by `GET /api/batches`, without its reviews. */
+export const batchJobSchema = z.object({
+  s3_key: z.string(),
+  file_name: z.string(),
+  processing_timestamp: z.string(),
+  total_reviews: z.number(),
+  summary: batchSummarySchema.optional(),
+})
+
+export const batchListSchema = z.object({
+  batches: z.array(batchJobSchema),
+})
+
+/**
+ * State of an asynchronous batch job (`POST /api/batch/jobs`, then
+ * `GET /api/batch/jobs/{job_id}`). `result` is present once completed and
+ * `error` once failed.
+ */
+export const batchJobStatusSchema = z.object({
+  job_id: z.string(),
+  status: z.enum(["queued", "processing", "completed", "failed"]),
+  file_name: z.string(),
+  submitted_at: z.string(),
+  progress: z.object({ processed: z.number(), total: z.number() }).optional(),
+  result: batchResultSchema.optional(),
+  error: z.string().optional(),
+})
+
+export const userSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String),
+  name: z.string(),
+  email: z.string(),
+  memberSince: z.string().optional(),
+})
+
+export const loginResponseSchema = z.object({
+  access_token: z.string().min(1, "No authentication token received"),
+  user: userSchema,
+})
+
+export const signupResponseSchema = z.object({
+  message: z.string().default("Account created"),
+})
+
+export const healthResponseSchema = z.object({
+  status: z.string(),
+  message: z.string().optional(),
+  version: z.string().optional(),
+  // Optional capabilities, e.g. "async_batch" for the batch job endpoints
+  features: z.array(z.string()).default([]),
+})
+
+export type SentimentResultResponse = z.output<typeof sentimentResultSchema>
+export type BatchResultResponse = z.output<typeof batchResultSchema>
+export type BatchReview = BatchResultResponse["reviews"][number]
+export type BatchJobResponse = z.output<typeof batchJobSchema>
+export type BatchJobStatusResponse = z.output<typeof batchJobStatusSchema>
+export type UserResponse = z.output<typeof userSchema>
+export type LoginResponse = z.output<typeof loginResponseSchema>
+export type HealthResponse = z.output<typeof healthResponseSchema>
@@ -9,22 +9,30 @@
  * - User authentication and registration
  * - Token validation and refresh
  * - Secure token storage and retrieval
- * - Environment-based API configuration
+ * - Requests routed through the shared ApiClient
  * 
  * @author Prudhvi2702
  * @version 1.0.0
  * @module
  */
 
-// API base URL with environment variable fallback
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "https://ox4zaij71h.execute-api.us-west-1.amazonaws.com/prod"
+import { ApiClient } from "./api-client"
+import { ApiError, ValidationError } from "./api-errors"
+import {
+  healthResponseSchema,
+  loginResponseSchema,
+  signupResponseSchema,
+  userSchema,
+  type HealthResponse,
+  type LoginResponse,
+  type UserResponse,
+} from "./api-schemas"
+import { createLogger } from "./logger"
+import { TokenStorage } from "./token-storage"
 
-export interface User {
-  id: string
-  name: string
-  email: string
-  memberSince?: string
-}
+const log = createLogger("auth")
+
+export type User = UserResponse
 
 export interface AuthResponse {
   token: string
@@ -32,152 +40,66 @@ export interface AuthResponse {
 }
 
 export class AuthService {
-  private static TOKEN_KEY = "sentiment_analyzer_token"
-
   static getToken(): string | null {
-    if (typeof window === "undefined") return null
-    const token = localStorage.getItem(this.TOKEN_KEY)
-    console.log("Getting token from localStorage:", token ? "Token exists" : "No token")
-    return token
+    return TokenStorage.get()
   }
 
   static setToken(token: string): void {
     if (typeof window === "undefined") return
     if (!token) {
-      console.log("Warning: Attempting to set empty/undefined token")
+      log.warn("Ignoring attempt to store an empty token")
       return
     }
-    console.log("Setting token in localStorage:", token.substring(0, 20) + "...")
-    localStorage.setItem(this.TOKEN_KEY, token)
+    TokenStorage.set(token)
   }
 
   static removeToken(): void {
-    if (typeof window === "undefined") return
-    console.log("Removing token from localStorage")
-    localStorage.removeItem(this.TOKEN_KEY)
+    log.debug("Clearing stored token")
+    TokenStorage.remove()
   }
 
   static async login(email: string, password: string): Promise<AuthResponse> {
-    console.log("Attempting login for:", email)
-    const response = await fetch(`${API_BASE_URL}/api/auth/login`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ email, password }),
-    })
-
-    console.log("Login response status:", response.status)
-
-    if (!response.ok) {
-      const error = await response.json()
-      console.log("Login error:", error)
-      throw new Error(error.message || "Login failed")
+    let result: LoginResponse
+    try {
+      result = await ApiClient.post("/api/auth/login", { email, password }, loginResponseSchema, { auth: false })
+    } catch (error) {
+      // Rejected credentials come back as 401/403 without a session involved
+      if (error instanceof ApiError && (error.status === 401 || error.status === 403) && !error.serverMessage) {
+        throw new ApiError(error.status, "Login failed", undefined, error.body)
+      }
+      throw error
     }
 
-    const result = await response.json()
-    console.log("=== LOGIN DEBUG ===")
-    console.log("Full response:", JSON.stringify(result, null, 2))
-    console.log("Access token exists:", !!result.access_token)
-    console.log("Access token value:", result.access_token)
-    console.log("Access token type:", typeof result.access_token)
-    console.log("Access token length:", result.access_token ? result.access_token.length : 0)
-    console.log("=== END DEBUG ===")
-    
-    // Check if token exists in response (API returns 'access_token' not 'token')
-    if (!result.access_token || typeof result.access_token !== 'string' || result.access_token.length === 0) {
-      console.error("No valid access_token received in login response")
-      console.error("Available fields in response:", Object.keys(result))
-      throw new Error("Login failed: No authentication token received")
-    }
-    
-    console.log("Token check passed, proceeding with login")
-    
-    // Return the response with the correct token field name
+    // The API returns 'access_token' rather than 'token'
     return {
       token: result.access_token,
-      user: result.user
+      user: result.user,
     }
   }
 
   static async signup(name: string, email: string, password: string): Promise<{ message: string }> {
-    console.log("Attempting signup for:", email, "name:", name)
-    console.log("Signup payload:", { name, email, password: "***" })
-    
     try {
-      const response = await fetch(`${API_BASE_URL}/api/auth/signup`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ name, email, password }),
-      })
-
-      console.log("Signup response status:", response.status)
-      console.log("Signup response ok:", response.ok)
-      console.log("Signup response headers:", Object.fromEntries(response.headers.entries()))
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.log("Signup error response text:", errorText)
-        
-        let errorData
-        try {
-          errorData = JSON.parse(errorText)
-        } catch (e) {
-          errorData = { message: errorText || "Signup failed" }
-        }
-        
-        console.log("Signup error data:", errorData)
-        
-        // Handle specific HTTP status codes
-        if (response.status === 409) {
-          throw new Error("An account with this email address already exists. Please try logging in instead.")
-        } else if (response.status === 400) {
-          throw new Error(errorData.message || "Invalid signup data. Please check your information.")
-        } else if (response.status === 500) {
-          throw new Error("Server error. Please try again later.")
-        } else {
-          throw new Error(errorData.message || "Signup failed")
-        }
-      }
-
-      const result = await response.json()
-      console.log("Signup successful, response:", result)
-      console.log("Signup response keys:", Object.keys(result))
-      return result
+      return await ApiClient.post("/api/auth/signup", { name, email, password }, signupResponseSchema, { auth: false })
     } catch (error) {
-      console.error("Signup network error:", error)
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new Error("Network error: Unable to connect to the server")
+      // A duplicate account is reported as a conflict; surface it against the email field
+      if (error instanceof ValidationError && error.status === 409) {
+        throw new ValidationError(
+          409,
+          "An account with this email address already exists. Please try logging in instead.",
+          { email: "An account with this email address already exists", ...error.fieldErrors },
+          error.serverMessage,
+          error.body,
+        )
       }
       throw error
     }
   }
 
   static async getUserProfile(): Promise<User> {
-    const token = this.getToken()
-    if (!token) throw new Error("No token found")
-
-    const response = await fetch(`${API_BASE_URL}/api/user/profile`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    })
-
-    if (!response.ok) {
-      if (response.status === 401) {
-        this.removeToken()
-        throw new Error("Session expired")
-      }
-      throw new Error("Failed to fetch profile")
-    }
-
-    return response.json()
+    return ApiClient.get("/api/user/profile", userSchema)
   }
 
-  static async checkHealth(): Promise<{ message: string; status: string; version: string }> {
-    const response = await fetch(`${API_BASE_URL}/health`)
-    return response.json()
+  static async checkHealth(): Promise<HealthResponse> {
+    return ApiClient.get("/health", healthResponseSchema, { auth: false })
   }
 }
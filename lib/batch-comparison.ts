@@ -0,0 +1,109 @@
+/**
+ * Batch Comparison Module
+ *
+ * Compares the sentiment of two batches, such as last month's reviews and
+ * this month's, or product A and product B. Both batches are compared as
+ * classified with the same neutral threshold, so a shift cannot come from
+ * a threshold change.
+ *
+ * Features:
+ * - Sentiment counts and shares per batch, and the change in share
+ * - Chi-square test of whether the sentiment mix differs between batches
+ * - Confidence histograms as shares, so batches of any size overlay
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { SENTIMENT_LABELS, countSentiments, type SentimentCounts, type SentimentLabel } from "./sentiment"
+import { binIndex, chiSquareTest, type ChiSquareResult } from "./statistics"
+
+/** Significance level the comparison reports against. */
+export const SIGNIFICANCE_LEVEL = 0.05
+
+interface ComparedItem {
+  sentiment: SentimentLabel
+  confidence: number
+}
+
+/**
+ * @property shareA - Share of batch A with this sentiment, from 0 to 1
+ * @property difference - `shareB - shareA`
+ */
+export interface SentimentShift {
+  sentiment: SentimentLabel
+  countA: number
+  countB: number
+  shareA: number
+  shareB: number
+  difference: number
+}
+
+/**
+ * @property test - Chi-square test over the sentiment counts; null when
+ *   either batch is empty or only one sentiment occurs at all
+ */
+export interface BatchComparison {
+  totalA: number
+  totalB: number
+  shifts: SentimentShift[]
+  test: ChiSquareResult | null
+}
+
+const share = (count: number, total: number) => (total === 0 ? 0 : count / total)
+
+export function compareBatches(a: ComparedItem[], b: ComparedItem[]): BatchComparison {
+  const countsA = countSentiments(a)
+  const countsB = countSentiments(b)
+  const shifts = SENTIMENT_LABELS.map((sentiment) => {
+    const shareA = share(countsA[sentiment], a.length)
+    const shareB = share(countsB[sentiment], b.length)
+    return {
+      sentiment,
+      countA: countsA[sentiment],
+      countB: countsB[sentiment],
+      shareA,
+      shareB,
+      difference: shareB - shareA,
+    }
+  })
+  const row = (counts: SentimentCounts) => SENTIMENT_LABELS.map((sentiment) => counts[sentiment])
+
+  return {
+    totalA: a.length,
+    totalB: b.length,
+    shifts,
+    test: a.length > 0 && b.length > 0 ? chiSquareTest([row(countsA), row(countsB)]) : null,
+  }
+}
+
+/**
+ * One confidence band. `a` and `b` are the share of each batch's reviews
+ * in the band, from 0 to 1.
+ */
+export interface ConfidenceOverlayBin {
+  label: string
+  range: [number, number]
+  a: number
+  b: number
+}
+
+/**
+ * Confidence histograms of both batches over `binCount` equal bands of
+ * [0, 1]. Leading bands that are empty in both are dropped, as two-class
+ * models never go below 50%.
+ */
+export function confidenceOverlay(a: ComparedItem[], b: ComparedItem[], binCount = 10): ConfidenceOverlayBin[] {
+  const bins: ConfidenceOverlayBin[] = Array.from({ length: binCount }, (_, bin) => ({
+    label: `${(bin * 100) / binCount}–${((bin + 1) * 100) / binCount}%`,
+    range: [bin / binCount, (bin + 1) / binCount],
+    a: 0,
+    b: 0,
+  }))
+  for (const item of a) bins[binIndex(item.confidence, binCount)].a += 1 / a.length
+  for (const item of b) bins[binIndex(item.confidence, binCount)].b += 1 / b.length
+
+  const first = bins.findIndex((bin) => bin.a > 0 || bin.b > 0)
+  return first === -1 ? bins : bins.slice(first)
+}
@@ -0,0 +1,132 @@
+/**
+ * Batch Jobs Module
+ *
+ * Client side of asynchronous batch analysis: the upload returns a job id
+ * at once and the job is polled until it finishes, so large files are not
+ * cut off by the gateway's request timeout. Running jobs are remembered in
+ * localStorage so they can be picked up again after leaving the page.
+ *
+ * Features:
+ * - Polling with a growing interval, reset whenever the job makes progress
+ * - Transient polling failures absorbed by the next poll
+ * - Per-user persistence of running jobs
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { isTransientError, sleep } from "./retry"
+import { SentimentAPI, type BatchJobStatus, type BatchResult } from "./sentiment-api"
+
+/**
+ * A running job remembered across page loads. `progress` is the last one
+ * the server reported.
+ */
+export interface TrackedBatchJob {
+  jobId: string
+  fileName: string
+  submittedAt: string
+  status: BatchJobStatus["status"]
+  progress?: BatchJobStatus["progress"]
+}
+
+/** The server reported the job as failed. */
+export class BatchJobFailedError extends Error {
+  readonly jobId: string
+
+  constructor(jobId: string, message: string) {
+    super(message)
+    this.name = "BatchJobFailedError"
+    this.jobId = jobId
+  }
+}
+
+const POLL_INITIAL_MS = 1000
+const POLL_MAX_MS = 10_000
+const POLL_GROWTH = 1.5
+
+/**
+ * Polls a job until it completes, waiting longer between polls while
+ * nothing changes. Failed polls that are worth repeating (network, 5xx,
+ * 429) are retried on the next poll; anything else ends polling.
+ *
+ * @param onUpdate - Receives every status the server reports
+ * @throws {BatchJobFailedError} When the server reports the job as failed,
+ *   or as completed without a result
+ */
+export async function pollBatchJob(
+  jobId: string,
+  onUpdate: (status: BatchJobStatus) => void,
+  signal?: AbortSignal,
+): Promise<BatchResult> {
+  let delay = POLL_INITIAL_MS
+  let lastProcessed: number | undefined
+
+  for (;;) {
+    try {
+      // Retries are left to this loop so its backoff governs every wait
+      const status = await SentimentAPI.getBatchJob(jobId, { signal, retry: false })
+      onUpdate(status)
+      if (status.status === "completed") {
+        if (status.result) return status.result
+        throw new BatchJobFailedError(jobId, "The batch job completed without a result")
+      }
+      if (status.status === "failed") {
+        throw new BatchJobFailedError(jobId, status.error ?? "The batch job failed")
+      }
+
+      const processed = status.progress?.processed
+      delay = processed !== lastProcessed ? POLL_INITIAL_MS : Math.min(POLL_MAX_MS, delay * POLL_GROWTH)
+      lastProcessed = processed
+    } catch (error) {
+      if (!isTransientError(error)) throw error
+      delay = Math.min(POLL_MAX_MS, delay * POLL_GROWTH)
+    }
+    await sleep(delay, signal)
+  }
+}
+
+export function toTrackedJob(status: BatchJobStatus): TrackedBatchJob {
+  return {
+    jobId: status.job_id,
+    fileName: status.file_name,
+    submittedAt: status.submitted_at,
+    status: status.status,
+    progress: status.progress,
+  }
+}
+
+const JOBS_KEY_PREFIX = "sentiment_analyzer_batch_jobs"
+
+// Jobs are stored per user so a shared browser only resumes each person's own
+function storageKey(userId: string) {
+  return `${JOBS_KEY_PREFIX}:${userId}`
+}
+
+/** Running jobs per user in localStorage. Finished jobs are removed. */
+export class BatchJobStore {
+  static list(userId: string): TrackedBatchJob[] {
+    if (typeof window === "undefined") return []
+    try {
+      const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "[]")
+      return Array.isArray(stored)
+        ? stored.filter((job): job is TrackedBatchJob => typeof job?.jobId === "string")
+        : []
+    } catch {
+      return []
+    }
+  }
+
+  static save(userId: string, job: TrackedBatchJob): void {
+    if (typeof window === "undefined") return
+    const others = this.list(userId).filter((stored) => stored.jobId !== job.jobId)
+    localStorage.setItem(storageKey(userId), JSON.stringify([...others, job]))
+  }
+
+  static remove(userId: string, jobId: string): void {
+    if (typeof window === "undefined") return
+    const remaining = this.list(userId).filter((stored) => stored.jobId !== jobId)
+    localStorage.setItem(storageKey(userId), JSON.stringify(remaining))
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Batch Progress Module
+ *
+ * One progress model for every way a batch is analyzed. A single request
+ * reports upload bytes and then waits on the server; a chunked job reports
+ * reviews completed, and an asynchronous job reports both. The progress
+ * panel reads them through the helpers below, so it never needs to know
+ * which kind of job it is showing.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+/**
+ * - `uploading`: the file is being sent; byte progress is known
+ * - `processing`: the server is analyzing; review progress is known only
+ *   when `tracksReviews` is set
+ */
+export type BatchPhase = "uploading" | "processing"
+
+/** Bytes sent so far for a request body; `total` is unknown for some bodies. */
+export interface UploadProgress {
+  loaded: number
+  total?: number
+}
+
+/**
+ * @property startedAt - When the job started, in epoch milliseconds
+ * @property phaseStartedAt - When the current phase started or was last
+ *   resumed; rates and estimates are measured from here
+ * @property upload - Byte progress of the current upload, if any
+ * @property completedReviews - Reviews analyzed so far
+ * @property completedAtPhaseStart - `completedReviews` when the phase started
+ * @property totalReviews - Reviews in the job
+ * @property tracksReviews - Whether `completedReviews` advances during the
+ *   processing phase (chunked jobs) or stays 0 until the response arrives
+ */
+export interface BatchProgress {
+  phase: BatchPhase
+  startedAt: number
+  phaseStartedAt: number
+  upload?: UploadProgress
+  completedReviews: number
+  completedAtPhaseStart: number
+  totalReviews: number
+  tracksReviews: boolean
+}
+
+/** Progress of a single upload request for `totalReviews` reviews. */
+export function startUploadProgress(totalReviews: number, now = Date.now()): BatchProgress {
+  return {
+    phase: "uploading",
+    startedAt: now,
+    phaseStartedAt: now,
+    upload: { loaded: 0 },
+    completedReviews: 0,
+    completedAtPhaseStart: 0,
+    totalReviews,
+    tracksReviews: false,
+  }
+}
+
+/**
+ * Applies an upload progress event; once every byte is sent the request
+ * moves on to the processing phase.
+ */
+export function applyUploadProgress(progress: BatchProgress, upload: UploadProgress, now = Date.now()): BatchProgress {
+  const finished = upload.total !== undefined && upload.loaded >= upload.total
+  if (finished && progress.phase === "uploading") {
+    return { ...progress, phase: "processing", phaseStartedAt: now, upload }
+  }
+  return { ...progress, upload }
+}
+
+/**
+ * Applies the progress an asynchronous job reports while the server works
+ * on it. From the first report on, the job is processing and its reviews
+ * are counted.
+ */
+export function applyJobProgress(
+  progress: BatchProgress,
+  job: { processed: number; total: number },
+  now = Date.now(),
+): BatchProgress {
+  const phaseChange = progress.phase === "uploading" ? { phase: "processing" as const, phaseStartedAt: now } : {}
+  return { ...progress, ...phaseChange, completedReviews: job.processed, totalReviews: job.total, tracksReviews: true }
+}
+
+/**
+ * Fraction of the job done, from 0 to 1, or undefined when the current
+ * phase has no measurable progress.
+ */
+export function progressFraction(progress: BatchProgress): number | undefined {
+  if (progress.phase === "uploading") {
+    const { upload } = progress
+    return upload?.total ? upload.loaded / upload.total : undefined
+  }
+  if (!progress.tracksReviews || progress.totalReviews === 0) return undefined
+  return progress.completedReviews / progress.totalReviews
+}
+
+/**
+ * Estimated milliseconds until the current phase finishes, from the rate
+ * since the phase started. Undefined until there is a rate to go on.
+ */
+export function estimateRemainingMs(progress: BatchProgress, now = Date.now()): number | undefined {
+  const elapsed = now - progress.phaseStartedAt
+  if (elapsed <= 0) return undefined
+
+  if (progress.phase === "uploading") {
+    const { upload } = progress
+    if (!upload?.total || upload.loaded === 0) return undefined
+    return ((upload.total - upload.loaded) * elapsed) / upload.loaded
+  }
+
+  const done = progress.completedReviews - progress.completedAtPhaseStart
+  if (!progress.tracksReviews || done <= 0) return undefined
+  return ((progress.totalReviews - progress.completedReviews) * elapsed) / done
+}
+
+/** Formats a duration as `m:ss`, or `h:mm:ss` from an hour up. */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, "0")
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`
+}
+
+/** Formats a byte count as B, KB or MB. */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,88 @@
+/**
+ * Benchmark Fixture
+ *
+ * Generates large, deterministic batches of classified results so the
+ * results table and charts can be profiled without a backend. Used by the
+ * `/benchmark` page.
+ *
+ * Features:
+ * - Seeded PRNG, so every run with the same seed renders identical data
+ * - Review lengths from a few words to several sentences
+ * - Confidence spread that mimics a two-class model (50-100%)
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import type { ClassifiedReview } from "./sentiment-api"
+import { classifySentiment, type SentimentLabel } from "./sentiment"
+
+export const DEFAULT_BENCHMARK_ROWS = 100_000
+export const MAX_BENCHMARK_ROWS = 500_000
+
+const OPENERS = [
+  "The product",
+  "Customer service",
+  "Delivery",
+  "The packaging",
+  "Build quality",
+  "The app",
+  "Battery life",
+  "The price",
+]
+
+const PHRASES: Record<"Positive" | "Negative", string[]> = {
+  Positive: ["was excellent", "exceeded my expectations", "works great", "is worth every penny", "made my day"],
+  Negative: ["was terrible", "broke after a week", "is a waste of money", "never arrived", "was very disappointing"],
+}
+
+const FILLER = [
+  "I ordered it for my family.",
+  "Would mention it to friends.",
+  "Setup took about ten minutes.",
+  "The color matches the photos.",
+  "Support answered within a day.",
+]
+
+/** mulberry32: small, fast and good enough for fixture data. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Builds `count` classified results with the given neutral threshold.
+ */
+export function generateBenchmarkResults(count: number, neutralThreshold: number, seed = 42): ClassifiedReview[] {
+  const random = createRandom(seed)
+  const pick = <T,>(items: T[]): T => items[Math.floor(random() * items.length)]
+  const results: ClassifiedReview[] = new Array(count)
+
+  for (let index = 0; index < count; index++) {
+    const rawLabel: SentimentLabel = random() < 0.6 ? "Positive" : "Negative"
+    // Skewed towards high confidence, like a real model
+    const confidence = Math.round((0.5 + 0.5 * Math.sqrt(random())) * 10000) / 10000
+    const sentences = [`${pick(OPENERS)} ${pick(PHRASES[rawLabel])}.`]
+    const extra = Math.floor(random() * 4)
+    for (let i = 0; i < extra; i++) sentences.push(pick(FILLER))
+    const review = sentences.join(" ")
+
+    results[index] = {
+      index,
+      review,
+      processed_text: review.toLowerCase(),
+      confidence,
+      rawLabel,
+      sentiment: classifySentiment(rawLabel, confidence, neutralThreshold),
+    }
+  }
+
+  return results
+}
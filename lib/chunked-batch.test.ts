@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  analyzeChunk,
+  combineBatchResults,
+  mergeChunkResults,
+  splitIntoChunks,
+  type ChunkResult,
+} from "./chunked-batch"
+import { SentimentAPI, type BatchResult, type BatchReview } from "./sentiment-api"
+
+const review = (index: number): BatchReview => ({
+  index,
+  review: `Review ${index}`,
+  sentiment: index % 2 === 0 ? "Positive" : "Negative",
+  confidence: 0.9,
+  processed_text: undefined,
+})
+
+// What the batch endpoint returns for one chunk: indexes restart at 0
+function batchResponse(texts: string[]): BatchResult {
+  return {
+    file_name: "part.csv",
+    processing_timestamp: "2024-01-01T00:00:00Z",
+    reviews: texts.map((text, index) => ({
+      index,
+      review: text,
+      sentiment: "Positive",
+      confidence: 0.9,
+      processed_text: undefined,
+    })),
+  }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("analyzeChunk", () => {
+  it("offsets the server's indexes by the chunk's start", async () => {
+    vi.spyOn(SentimentAPI, "analyzeBatch").mockResolvedValue(batchResponse(["c", "d"]))
+    const [, chunk] = splitIntoChunks(5, 2)
+    const signal = new AbortController().signal
+    const result = await analyzeChunk(["a", "b", "c", "d", "e"], chunk, "reviews.csv", "batch", () => {}, signal)
+    expect(result.reviews.map((item) => item.index)).toEqual([2, 3])
+  })
+})
+
+describe("mergeChunkResults", () => {
+  it("keeps indexes continuous when chunks finish out of order or after a retry", () => {
+    const chunks = splitIntoChunks(7, 3)
+    const results: ChunkResult[] = chunks.map((chunk) => ({
+      reviews: Array.from({ length: chunk.end - chunk.start }, (_, offset) => review(chunk.start + offset)),
+      processedAt: `2024-01-0${chunk.id + 1}T00:00:00Z`,
+    }))
+    // The last chunk finished first and the first one only after a retry
+    const merged = mergeChunkResults("reviews.csv", [results[2], results[1], results[0]])
+    expect(merged.reviews.map((item) => item.index)).toEqual([0, 1, 2, 3, 4, 5, 6])
+    expect(merged.reviews.map((item) => item.review)).toEqual(merged.reviews.map((item) => `Review ${item.index}`))
+    expect(merged.processing_timestamp).toBe("2024-01-03T00:00:00Z")
+    expect(merged.summary?.total_reviews).toBe(7)
+  })
+})
+
+describe("combineBatchResults", () => {
+  it("shifts each file's indexes past the previous file's", () => {
+    const file = (count: number): BatchResult => ({
+      file_name: "file.csv",
+      processing_timestamp: "2024-01-01T00:00:00Z",
+      reviews: Array.from({ length: count }, (_, index) => review(index)),
+    })
+    const combined = combineBatchResults([file(3), file(2), file(4)])
+    expect(combined.reviews.map((item) => item.index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8])
+  })
+})
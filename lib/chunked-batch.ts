@@ -0,0 +1,232 @@
+/**
+ * Chunked Batch Module
+ *
+ * Splits a large review list into chunks small enough for the batch
+ * endpoint, analyzes each chunk, and merges the chunk results back into a
+ * single `BatchResult`. The scheduling (concurrency, pause, retry) lives in
+ * `useChunkedBatch`; this module holds the pieces that do not depend on
+ * React.
+ *
+ * Features:
+ * - Two transports: one `analyzeBatch` upload per chunk, or one
+ *   `analyzeSentiment` call per review
+ * - Result indexes offset so they match positions in the full review list
+ * - Server summaries added up across chunks and files, or recomputed from
+ *   the merged reviews when the server sent none
+ * - Finished batches from several files combined into one view
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { formatCsv } from "./csv"
+import { countSentiments } from "./sentiment"
+import { SentimentAPI, type BatchResult, type BatchReview } from "./sentiment-api"
+
+/**
+ * How chunks reach the backend.
+ * - `batch`: each chunk is uploaded as its own CSV to the batch endpoint
+ * - `single`: each review in a chunk is sent to the single-text endpoint
+ */
+export type ChunkTransport = "batch" | "single"
+
+/**
+ * @property chunkSize - Reviews per chunk
+ * @property concurrency - Chunks analyzed at the same time
+ * @property transport - See `ChunkTransport`
+ */
+export interface ChunkedBatchOptions {
+  chunkSize: number
+  concurrency: number
+  transport: ChunkTransport
+}
+
+/** The README's recommended batch size is 50–100 reviews. */
+export const DEFAULT_CHUNKED_BATCH_OPTIONS: ChunkedBatchOptions = {
+  chunkSize: 100,
+  concurrency: 3,
+  transport: "batch",
+}
+
+export const CHUNK_SIZES = [50, 100, 250, 500]
+export const MAX_CONCURRENCY = 6
+
+/** Above this many reviews the batch page suggests chunked processing. */
+export const CHUNKING_THRESHOLD = DEFAULT_CHUNKED_BATCH_OPTIONS.chunkSize
+
+export type ChunkStatus = "pending" | "running" | "done" | "failed"
+
+/**
+ * One slice of the review list.
+ *
+ * @property start - Position of the chunk's first review in the full list
+ * @property end - Position after the chunk's last review
+ * @property processed - Reviews analyzed so far; only advances per review
+ *   for the `single` transport
+ * @property error - Why the last attempt failed
+ */
+export interface BatchChunk {
+  id: number
+  start: number
+  end: number
+  status: ChunkStatus
+  processed: number
+  error?: string
+}
+
+export function splitIntoChunks(total: number, chunkSize: number): BatchChunk[] {
+  const chunks: BatchChunk[] = []
+  for (let start = 0; start < total; start += chunkSize) {
+    chunks.push({ id: chunks.length, start, end: Math.min(total, start + chunkSize), status: "pending", processed: 0 })
+  }
+  return chunks
+}
+
+/**
+ * Result of one chunk. `reviews` are indexed by position in the full list.
+ *
+ * @property summary - The server's summary of a `batch` chunk, if it sent one
+ */
+export interface ChunkResult {
+  reviews: BatchReview[]
+  processedAt: string
+  summary?: BatchResult["summary"]
+}
+
+/**
+ * Analyzes the reviews in `chunk`, reporting progress after each review for
+ * the `single` transport and once at the end for `batch`.
+ */
+export async function analyzeChunk(
+  reviews: string[],
+  chunk: BatchChunk,
+  fileName: string,
+  transport: ChunkTransport,
+  onProgress: (processed: number) => void,
+  signal: AbortSignal,
+): Promise<ChunkResult> {
+  const texts = reviews.slice(chunk.start, chunk.end)
+
+  if (transport === "batch") {
+    const base = fileName.replace(/\.[^.]+$/, "") || "reviews"
+    const csv = formatCsv(
+      ["review"],
+      texts.map((text) => [text]),
+    )
+    const file = new File([csv], `${base}-part-${chunk.id + 1}.csv`, { type: "text/csv" })
+    const response = await SentimentAPI.analyzeBatch(file, { signal })
+    onProgress(texts.length)
+    return {
+      reviews: response.reviews.map((review) => ({ ...review, index: chunk.start + review.index })),
+      processedAt: response.processing_timestamp,
+      summary: response.summary,
+    }
+  }
+
+  const results: BatchReview[] = []
+  for (const [offset, text] of texts.entries()) {
+    const result = await SentimentAPI.analyzeSentiment(text, { signal })
+    results.push({
+      index: chunk.start + offset,
+      review: text,
+      sentiment: result.sentiment,
+      confidence: result.confidence,
+      processed_text: undefined,
+    })
+    onProgress(offset + 1)
+  }
+  return { reviews: results, processedAt: new Date().toISOString() }
+}
+
+function percentage(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 10000) / 100
+}
+
+/** Builds the summary block the batch endpoint returns, from model labels. */
+export function summarizeReviews(reviews: Pick<BatchReview, "sentiment">[]): NonNullable<BatchResult["summary"]> {
+  const counts = countSentiments(reviews)
+  const total = reviews.length
+  return {
+    positive: counts.Positive,
+    negative: counts.Negative,
+    neutral: counts.Neutral,
+    positive_percentage: percentage(counts.Positive, total),
+    negative_percentage: percentage(counts.Negative, total),
+    neutral_percentage: percentage(counts.Neutral, total),
+    total_reviews: total,
+  }
+}
+
+/**
+ * Adds up the summaries of several batches, recomputing the percentages.
+ * Undefined when any batch has no summary.
+ */
+function sumSummaries(summaries: BatchResult["summary"][]): BatchResult["summary"] {
+  if (summaries.some((summary) => !summary)) return undefined
+  const total = (key: "positive" | "negative" | "neutral" | "total_reviews") =>
+    summaries.reduce((sum, summary) => sum + (summary?.[key] ?? 0), 0)
+  const [positive, negative, neutral, totalReviews] = [
+    total("positive"),
+    total("negative"),
+    total("neutral"),
+    total("total_reviews"),
+  ]
+  return {
+    positive,
+    negative,
+    neutral,
+    positive_percentage: percentage(positive, totalReviews),
+    negative_percentage: percentage(negative, totalReviews),
+    neutral_percentage: percentage(neutral, totalReviews),
+    total_reviews: totalReviews,
+  }
+}
+
+/**
+ * Combines chunk results, in chunk order, into one batch result as if the
+ * whole file had been analyzed in a single request. The summary adds up the
+ * chunks' server summaries, or is counted from the reviews when any chunk
+ * has none.
+ */
+export function mergeChunkResults(fileName: string, results: ChunkResult[]): BatchResult {
+  const reviews = results.flatMap((result) => result.reviews).sort((a, b) => a.index - b.index)
+  const processedAt = results.reduce(
+    (latest, result) => (result.processedAt > latest ? result.processedAt : latest),
+    "",
+  )
+  return {
+    file_name: fileName,
+    message: `Batch analysis completed in ${results.length} chunk${results.length === 1 ? "" : "s"}`,
+    processing_timestamp: processedAt || new Date().toISOString(),
+    reviews,
+    summary: sumSummaries(results.map((result) => result.summary)) ?? summarizeReviews(reviews),
+  }
+}
+
+/**
+ * Combines the results of several files into one batch for an aggregated
+ * view. Each file's indexes are shifted past the previous file's, so rows
+ * stay unique; `metadata` still refers to each file's own columns. The
+ * summary adds up the files' own summaries, so it still reflects what the
+ * server reported.
+ */
+export function combineBatchResults(results: BatchResult[]): BatchResult {
+  let offset = 0
+  const reviews = results.flatMap((result) => {
+    const shifted = result.reviews.map((review) => ({ ...review, index: offset + review.index }))
+    offset += result.reviews.reduce((max, review) => Math.max(max, review.index + 1), 0)
+    return shifted
+  })
+  const processedAt = results.reduce(
+    (latest, result) => (result.processing_timestamp > latest ? result.processing_timestamp : latest),
+    "",
+  )
+  return {
+    file_name: `${results.length} files`,
+    message: `Combined results of ${results.length} files`,
+    processing_timestamp: processedAt || new Date().toISOString(),
+    reviews,
+    summary: sumSummaries(results.map((result) => result.summary)),
+  }
+}
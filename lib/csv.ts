@@ -0,0 +1,232 @@
+/**
+ * CSV Parsing Module
+ *
+ * Browser-side CSV reader used to preview and validate review files before
+ * they are uploaded, and the matching writer used to build the upload.
+ *
+ * Features:
+ * - RFC 4180 quoting, including escaped quotes and multiline fields
+ * - Byte-order-mark handling for UTF-8 and UTF-16 files
+ * - Delimiter detection (comma, semicolon, tab, pipe)
+ * - UTF-8 decoding with a Windows-1252 fallback for legacy exports
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number]
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252"
+
+/**
+ * Result of decoding a file's bytes.
+ *
+ * @property fallback - True when the bytes were not valid UTF-8 and were
+ *   decoded as Windows-1252 instead
+ */
+export interface DecodedText {
+  text: string
+  encoding: TextEncoding
+  hadBom: boolean
+  fallback: boolean
+}
+
+/**
+ * A parsed CSV file. `rows` excludes the header row; rows are not padded,
+ * so a row can have more or fewer fields than `headers`.
+ */
+export interface ParsedCsv {
+  headers: string[]
+  rows: string[][]
+  delimiter: CsvDelimiter
+}
+
+/** The file is not well-formed CSV, e.g. a quoted field is never closed. */
+export class CsvParseError extends Error {
+  readonly line: number
+
+  constructor(message: string, line: number) {
+    super(message)
+    this.name = "CsvParseError"
+    this.line = line
+  }
+}
+
+/**
+ * Decodes file bytes, honoring a UTF-8 or UTF-16 byte-order mark. Files
+ * without a BOM are read as UTF-8 and fall back to Windows-1252, the usual
+ * encoding of spreadsheet exports on Windows, when that fails.
+ */
+export function decodeText(bytes: Uint8Array): DecodedText {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(bytes), encoding: "utf-16le", hadBom: true, fallback: false }
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder("utf-16be").decode(bytes), encoding: "utf-16be", hadBom: true, fallback: false }
+  }
+
+  const hadBom = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf
+  try {
+    // TextDecoder strips the BOM itself
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "utf-8", hadBom, fallback: false }
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(bytes), encoding: "windows-1252", hadBom: false, fallback: true }
+  }
+}
+
+interface ScanResult {
+  records: string[][]
+  // Line where an unclosed quoted field starts, or null when all were closed
+  unterminatedLine: number | null
+}
+
+function scan(text: string, delimiter: string): ScanResult {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let quoted = false
+  let atFieldStart = true
+  let line = 1
+  let quoteLine = 0
+
+  const endField = () => {
+    record.push(field)
+    field = ""
+    atFieldStart = true
+  }
+  const endRecord = () => {
+    endField()
+    records.push(record)
+    record = []
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        if (char === "\n") line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && atFieldStart) {
+      quoted = true
+      quoteLine = line
+      atFieldStart = false
+    } else if (char === delimiter) {
+      endField()
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      endRecord()
+      line++
+    } else {
+      // A quote inside an unquoted field is kept literally, as most
+      // spreadsheet exports expect
+      field += char
+      atFieldStart = false
+    }
+  }
+
+  if (quoted) {
+    return { records, unterminatedLine: quoteLine }
+  }
+  // No trailing newline: flush the last record
+  if (record.length > 0 || !atFieldStart) endRecord()
+  return { records, unterminatedLine: null }
+}
+
+/**
+ * Splits CSV text into records of raw field values.
+ *
+ * @throws {CsvParseError} When a quoted field is never closed
+ */
+export function parseCsvRecords(text: string, delimiter: CsvDelimiter = ","): string[][] {
+  const { records, unterminatedLine } = scan(text, delimiter)
+  if (unterminatedLine !== null) {
+    throw new CsvParseError(`A quoted field starting on line ${unterminatedLine} is never closed`, unterminatedLine)
+  }
+  return records
+}
+
+// Bytes of the file inspected when guessing the delimiter
+const DETECTION_SAMPLE_SIZE = 64 * 1024
+const DETECTION_SAMPLE_RECORDS = 20
+
+/**
+ * Guesses the delimiter from the start of the file: the candidate that
+ * splits the most sampled records into the same number of fields wins, with
+ * more fields breaking ties. Single-column files default to a comma.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const sample = text.slice(0, DETECTION_SAMPLE_SIZE)
+  let best: { delimiter: CsvDelimiter; consistency: number; fields: number } = {
+    delimiter: ",",
+    consistency: 0,
+    fields: 1,
+  }
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const { records } = scan(sample, delimiter)
+    // The sample may end part-way through a record
+    const sampled = records.slice(0, Math.min(DETECTION_SAMPLE_RECORDS, Math.max(1, records.length - 1)))
+    if (sampled.length === 0) continue
+
+    const frequency = new Map<number, number>()
+    for (const record of sampled) frequency.set(record.length, (frequency.get(record.length) ?? 0) + 1)
+    const [fields, count] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]
+    if (fields < 2) continue
+
+    const consistency = count / sampled.length
+    if (consistency > best.consistency || (consistency === best.consistency && fields > best.fields)) {
+      best = { delimiter, consistency, fields }
+    }
+  }
+
+  return best.delimiter
+}
+
+/**
+ * Parses CSV text with a header row. A leading BOM is ignored and the
+ * delimiter is detected unless given.
+ *
+ * @throws {CsvParseError} When the file is empty or a quoted field is never closed
+ */
+export function parseCsv(text: string, options: { delimiter?: CsvDelimiter } = {}): ParsedCsv {
+  const source = text.replace(/^\uFEFF/, "")
+  const delimiter = options.delimiter ?? detectDelimiter(source)
+  const [header, ...rows] = parseCsvRecords(source, delimiter)
+  if (!header || header.every((name) => name.trim() === "")) {
+    throw new CsvParseError("The file is empty or has no header row", 1)
+  }
+
+  // Blank lines at the end of the file are not rows
+  while (rows.length > 0 && rows[rows.length - 1].length === 1 && rows[rows.length - 1][0].trim() === "") rows.pop()
+
+  return {
+    headers: header.map((name, column) => name.trim() || `Column ${column + 1}`),
+    rows,
+    delimiter,
+  }
+}
+
+/** Quotes a CSV field per RFC 4180 when it contains a delimiter, quote or newline. */
+export function csvField(value: unknown, delimiter: CsvDelimiter = ","): string {
+  const text = String(value ?? "")
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Writes a header and rows as CSV with CRLF line endings. */
+export function formatCsv(headers: string[], rows: unknown[][], delimiter: CsvDelimiter = ","): string {
+  return [headers, ...rows].map((row) => row.map((value) => csvField(value, delimiter)).join(delimiter)).join("\r\n")
+}
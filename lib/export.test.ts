@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest"
+import { spreadsheetSafe, toCsv, type ExportRow } from "./export"
+
+const row = (review: string, product?: string): ExportRow => ({
+  original_index: 0,
+  review,
+  sentiment: "Neutral",
+  raw_label: "Neutral",
+  confidence: 0.5,
+  product,
+})
+
+describe("spreadsheetSafe", () => {
+  it("prefixes text that a spreadsheet would read as a formula", () => {
+    for (const text of ["=HYPERLINK(\"x\")", "+1+1", "-2+3", "@SUM(A1)", "\t=1", "\r=1"]) {
+      expect(spreadsheetSafe(text)).toBe(`'${text}`)
+    }
+  })
+
+  it("leaves other text and non-text values alone", () => {
+    expect(spreadsheetSafe("Great product")).toBe("Great product")
+    expect(spreadsheetSafe("a = b")).toBe("a = b")
+    expect(spreadsheetSafe(-1)).toBe(-1)
+    expect(spreadsheetSafe(undefined)).toBeUndefined()
+  })
+})
+
+describe("toCsv", () => {
+  it("neutralizes formulas in reviews and product names", () => {
+    const [, data] = toCsv([row("=1+1", "@evil")]).split("\r\n")
+    expect(data).toBe("0,'=1+1,Neutral,Neutral,0.5,'@evil")
+  })
+})
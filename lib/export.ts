@@ -0,0 +1,375 @@
+/**
+ * Results Export Module
+ *
+ * Writes batch results to CSV, JSON, XLSX and a printable PDF report. All
+ * files are generated in the browser; nothing is sent over the network.
+ * The XLSX and PDF writers are loaded on demand to keep them out of the
+ * main bundle.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import type { ClassifiedReview } from "./sentiment-api"
+import { SENTIMENT_LABELS, countSentiments, type SentimentLabel } from "./sentiment"
+import { formatCsv } from "./csv"
+import { COLUMN_ROLES } from "./review-import"
+
+export type ExportFormat = "csv" | "json" | "xlsx" | "pdf"
+
+/**
+ * One exported result row; column names match across every format. The
+ * metadata fields are present only for rows whose mapped column had a value.
+ */
+export interface ExportRow {
+  original_index: number
+  review: string
+  sentiment: SentimentLabel
+  raw_label: SentimentLabel
+  confidence: number
+  product?: string
+  date?: string
+  rating?: number
+  author?: string
+}
+
+/**
+ * Context written alongside the rows.
+ *
+ * @property fileName - Source file the batch came from
+ * @property neutralThreshold - Threshold used to derive `sentiment`
+ * @property processedAt - ISO timestamp of the analysis, when known
+ */
+export interface ExportContext {
+  fileName: string
+  neutralThreshold: number
+  processedAt?: string
+}
+
+export function toExportRows(results: ClassifiedReview[]): ExportRow[] {
+  return results.map((result) => ({
+    original_index: result.index,
+    review: result.review,
+    sentiment: result.sentiment,
+    raw_label: result.rawLabel,
+    confidence: result.confidence,
+    ...result.metadata,
+  }))
+}
+
+const EXPORT_COLUMNS: (keyof ExportRow)[] = ["original_index", "review", "sentiment", "raw_label", "confidence"]
+
+/** The base columns plus every metadata column that has a value in some row. */
+function exportColumns(rows: ExportRow[]): (keyof ExportRow)[] {
+  const metadata = COLUMN_ROLES.filter((role) => rows.some((row) => row[role] !== undefined))
+  return [...EXPORT_COLUMNS, ...metadata]
+}
+
+// Products charted in the PDF report, by review count
+const PDF_MAX_PRODUCTS = 15
+
+// Rows rendered into the PDF table; the full data belongs in CSV/XLSX
+const PDF_MAX_TABLE_ROWS = 500
+
+function percent(count: number, total: number): string {
+  return total === 0 ? "0%" : `${((count / total) * 100).toFixed(1)}%`
+}
+
+/** Builds the export file name, e.g. `reviews-sentiment.csv`. */
+export function exportFileName(sourceFileName: string, format: ExportFormat): string {
+  const base = sourceFileName.replace(/\.[^.]+$/, "") || "results"
+  return `${base}-sentiment.${format}`
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Leading characters that make Excel and Sheets read a cell as a formula
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"]
+
+/**
+ * Neutralizes text that a spreadsheet would run as a formula (CSV formula
+ * injection) by prefixing it with `'`. Reviews and product names come from
+ * untrusted files, so every CSV cell goes through this. XLSX needs no guard:
+ * its text cells are typed as strings and never evaluated.
+ */
+export function spreadsheetSafe<T>(value: T): T | string {
+  return typeof value === "string" && FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix)) ? `'${value}` : value
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  const columns = exportColumns(rows)
+  return formatCsv(
+    columns,
+    rows.map((row) => columns.map((column) => spreadsheetSafe(row[column]))),
+  )
+}
+
+function summaryRows(rows: ExportRow[], context: ExportContext) {
+  const counts = countSentiments(rows)
+  const rawCounts = countSentiments(rows.map((row) => ({ sentiment: row.raw_label })))
+  return [
+    ["Source file", context.fileName],
+    ["Processed at", context.processedAt ?? ""],
+    ["Exported at", new Date().toISOString()],
+    ["Neutral threshold", context.neutralThreshold],
+    ["Total reviews", rows.length],
+    ...SENTIMENT_LABELS.map((label) => [label, counts[label], percent(counts[label], rows.length)]),
+    ...SENTIMENT_LABELS.map((label) => [`${label} (model label)`, rawCounts[label], percent(rawCounts[label], rows.length)]),
+  ]
+}
+
+async function exportXlsx(rows: ExportRow[], context: ExportContext): Promise<Blob> {
+  const XLSX = await import("xlsx")
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summaryRows(rows, context)), "Summary")
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows, { header: exportColumns(rows) }), "Results")
+  const data = XLSX.write(workbook, { bookType: "xlsx", type: "array" })
+  return new Blob([data], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
+}
+
+const SENTIMENT_COLORS: Record<SentimentLabel, [number, number, number]> = {
+  Positive: [22, 163, 74],
+  Negative: [220, 38, 38],
+  Neutral: [107, 114, 128],
+}
+
+async function exportPdf(rows: ExportRow[], context: ExportContext): Promise<Blob> {
+  const { jsPDF } = await import("jspdf")
+  const doc = new jsPDF({ unit: "pt", format: "a4" })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const margin = 40
+  const contentWidth = pageWidth - margin * 2
+  const counts = countSentiments(rows)
+  let y = margin
+
+  // Title and metadata
+  doc.setFontSize(18)
+  doc.text("Sentiment Analysis Report", margin, y + 8)
+  y += 30
+  doc.setFontSize(10)
+  doc.setTextColor(100)
+  doc.text(`Source: ${context.fileName}`, margin, y)
+  doc.text(`Generated: ${new Date().toLocaleString()}`, margin, y + 14)
+  doc.text(`Neutral threshold: ${Math.round(context.neutralThreshold * 100)}%`, margin, y + 28)
+  y += 48
+
+  // Summary cards
+  const cards: [string, number, [number, number, number]][] = [
+    ["Total Processed", rows.length, [37, 99, 235]],
+    ...SENTIMENT_LABELS.map((label): [string, number, [number, number, number]] => [
+      label,
+      counts[label],
+      SENTIMENT_COLORS[label],
+    ]),
+  ]
+  const cardGap = 10
+  const cardWidth = (contentWidth - cardGap * (cards.length - 1)) / cards.length
+  cards.forEach(([label, value, color], position) => {
+    const x = margin + position * (cardWidth + cardGap)
+    doc.setDrawColor(220)
+    doc.roundedRect(x, y, cardWidth, 56, 4, 4)
+    doc.setFontSize(18)
+    doc.setTextColor(...color)
+    doc.text(String(value), x + cardWidth / 2, y + 26, { align: "center" })
+    doc.setFontSize(9)
+    doc.setTextColor(100)
+    const share = label === "Total Processed" ? "" : ` (${percent(value, rows.length)})`
+    doc.text(`${label}${share}`, x + cardWidth / 2, y + 44, { align: "center" })
+  })
+  y += 80
+
+  // Sentiment distribution bar chart
+  doc.setFontSize(12)
+  doc.setTextColor(0)
+  doc.text("Sentiment Distribution", margin, y)
+  y += 14
+  const maxCount = Math.max(1, ...SENTIMENT_LABELS.map((label) => counts[label]))
+  SENTIMENT_LABELS.forEach((label) => {
+    doc.setFontSize(9)
+    doc.setTextColor(60)
+    doc.text(label, margin, y + 10)
+    doc.setFillColor(...SENTIMENT_COLORS[label])
+    doc.rect(margin + 60, y, ((contentWidth - 120) * counts[label]) / maxCount, 14, "F")
+    doc.text(String(counts[label]), margin + 60 + ((contentWidth - 120) * counts[label]) / maxCount + 6, y + 10)
+    y += 20
+  })
+  y += 16
+
+  // Confidence histogram, ten buckets of 10%
+  doc.setFontSize(12)
+  doc.setTextColor(0)
+  doc.text("Confidence Distribution", margin, y)
+  y += 10
+  const buckets = new Array(10).fill(0)
+  rows.forEach((row) => buckets[Math.min(9, Math.floor(row.confidence * 10))]++)
+  const maxBucket = Math.max(1, ...buckets)
+  const chartHeight = 90
+  const barWidth = contentWidth / buckets.length
+  buckets.forEach((count, bucket) => {
+    const height = (chartHeight * count) / maxBucket
+    doc.setFillColor(37, 99, 235)
+    doc.rect(margin + bucket * barWidth + 2, y + chartHeight - height, barWidth - 4, height, "F")
+    doc.setFontSize(7)
+    doc.setTextColor(100)
+    doc.text(`${bucket * 10}-${bucket * 10 + 10}%`, margin + bucket * barWidth + barWidth / 2, y + chartHeight + 10, {
+      align: "center",
+    })
+  })
+  y += chartHeight + 30
+
+  // Sentiment by product, as stacked bars for the most-reviewed products
+  const byProduct = new Map<string, Record<SentimentLabel, number>>()
+  rows.forEach((row) => {
+    if (row.product === undefined) return
+    const productCounts = byProduct.get(row.product) ?? { Positive: 0, Negative: 0, Neutral: 0 }
+    productCounts[row.sentiment]++
+    byProduct.set(row.product, productCounts)
+  })
+  if (byProduct.size > 0) {
+    const total = (productCounts: Record<SentimentLabel, number>) =>
+      SENTIMENT_LABELS.reduce((sum, label) => sum + productCounts[label], 0)
+    const topProducts = [...byProduct].sort(([, a], [, b]) => total(b) - total(a)).slice(0, PDF_MAX_PRODUCTS)
+    const maxTotal = Math.max(1, ...topProducts.map(([, productCounts]) => total(productCounts)))
+    const labelWidth = 120
+    const barArea = contentWidth - labelWidth - 40
+
+    if (y + 30 + topProducts.length * 18 > pageHeight - margin) {
+      doc.addPage()
+      y = margin
+    }
+    doc.setFontSize(12)
+    doc.setTextColor(0)
+    doc.text("Sentiment by Product", margin, y)
+    y += 14
+    topProducts.forEach(([product, productCounts]) => {
+      doc.setFontSize(8)
+      doc.setTextColor(60)
+      doc.text(doc.splitTextToSize(product, labelWidth - 8)[0], margin, y + 9)
+      let x = margin + labelWidth
+      SENTIMENT_LABELS.forEach((label) => {
+        const width = (barArea * productCounts[label]) / maxTotal
+        doc.setFillColor(...SENTIMENT_COLORS[label])
+        doc.rect(x, y, width, 12, "F")
+        x += width
+      })
+      doc.text(String(total(productCounts)), x + 6, y + 9)
+      y += 18
+    })
+    if (byProduct.size > PDF_MAX_PRODUCTS) {
+      doc.setFontSize(8)
+      doc.setTextColor(100)
+      doc.text(`Top ${PDF_MAX_PRODUCTS} of ${byProduct.size} products by review count.`, margin, y + 4)
+      y += 12
+    }
+    y += 20
+  }
+
+  // Results table
+  const columns = [
+    { title: "#", width: 36 },
+    { title: "Review", width: contentWidth - 36 - 70 - 70 - 55 },
+    { title: "Sentiment", width: 70 },
+    { title: "Model", width: 70 },
+    { title: "Conf.", width: 55 },
+  ]
+  const drawHeader = () => {
+    doc.setFontSize(9)
+    doc.setTextColor(0)
+    let x = margin
+    columns.forEach((column) => {
+      doc.text(column.title, x, y)
+      x += column.width
+    })
+    doc.setDrawColor(200)
+    doc.line(margin, y + 4, margin + contentWidth, y + 4)
+    y += 16
+  }
+
+  doc.setFontSize(12)
+  doc.text("Results", margin, y)
+  y += 18
+  drawHeader()
+  rows.slice(0, PDF_MAX_TABLE_ROWS).forEach((row) => {
+    doc.setFontSize(8)
+    const lines: string[] = doc.splitTextToSize(row.review || "(empty)", columns[1].width - 8).slice(0, 3)
+    const rowHeight = Math.max(12, lines.length * 10) + 4
+    if (y + rowHeight > pageHeight - margin) {
+      doc.addPage()
+      y = margin
+      drawHeader()
+      doc.setFontSize(8)
+    }
+    doc.setTextColor(60)
+    let x = margin
+    // Numbered from 1, as in the results table
+    doc.text(String(row.original_index + 1), x, y)
+    x += columns[0].width
+    doc.text(lines, x, y)
+    x += columns[1].width
+    doc.setTextColor(...SENTIMENT_COLORS[row.sentiment])
+    doc.text(row.sentiment, x, y)
+    x += columns[2].width
+    doc.setTextColor(60)
+    doc.text(row.raw_label, x, y)
+    x += columns[3].width
+    doc.text(`${(row.confidence * 100).toFixed(1)}%`, x, y)
+    y += rowHeight
+  })
+
+  if (rows.length > PDF_MAX_TABLE_ROWS) {
+    doc.setFontSize(9)
+    doc.setTextColor(100)
+    doc.text(
+      `Showing the first ${PDF_MAX_TABLE_ROWS} of ${rows.length} reviews. Export to CSV or XLSX for the full data.`,
+      margin,
+      Math.min(y + 6, pageHeight - margin / 2),
+    )
+  }
+
+  return doc.output("blob")
+}
+
+/**
+ * Generates the export in `format` and triggers a browser download.
+ */
+export async function exportResults(
+  results: ClassifiedReview[],
+  format: ExportFormat,
+  context: ExportContext,
+): Promise<void> {
+  const rows = toExportRows(results)
+  const fileName = exportFileName(context.fileName, format)
+
+  switch (format) {
+    case "csv":
+      // Leading BOM so Excel opens UTF-8 text correctly
+      downloadBlob(new Blob(["\uFEFF" + toCsv(rows)], { type: "text/csv;charset=utf-8" }), fileName)
+      return
+    case "json":
+      downloadBlob(
+        new Blob([JSON.stringify({ ...context, exported_at: new Date().toISOString(), results: rows }, null, 2)], {
+          type: "application/json",
+        }),
+        fileName,
+      )
+      return
+    case "xlsx":
+      downloadBlob(await exportXlsx(rows, context), fileName)
+      return
+    case "pdf":
+      downloadBlob(await exportPdf(rows, context), fileName)
+      return
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Analysis History Store
+ *
+ * Persists every completed analysis in IndexedDB so results survive
+ * navigation and page reloads. Records are scoped to the logged-in user's id;
+ * all reads filter by it.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import type { BatchResult, SentimentResult } from "./sentiment-api"
+import { countSentiments, type SentimentCounts, type SentimentLabel } from "./sentiment"
+
+const DB_NAME = "sentiment-analyzer"
+const DB_VERSION = 1
+const STORE_NAME = "history"
+const USER_INDEX = "userId"
+
+interface HistoryRecordBase {
+  id: string
+  userId: string
+  /** ISO timestamp of when the analysis completed */
+  createdAt: string
+}
+
+/** A single-text analysis. `input` is the analyzed text. */
+export interface SingleHistoryRecord extends HistoryRecordBase {
+  kind: "single"
+  input: string
+  result: SentimentResult
+  rawLabel: SentimentLabel
+}
+
+/** A batch analysis. `input` is the uploaded file name. */
+export interface BatchHistoryRecord extends HistoryRecordBase {
+  kind: "batch"
+  input: string
+  result: BatchResult
+  rawCounts: SentimentCounts
+}
+
+export type HistoryRecord = SingleHistoryRecord | BatchHistoryRecord
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"))
+  }
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+      store.createIndex(USER_INDEX, "userId", { unique: false })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+}
+
+function newId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+export class HistoryStore {
+  static async addSingle(userId: string, text: string, result: SentimentResult): Promise<SingleHistoryRecord> {
+    const record: SingleHistoryRecord = {
+      id: newId(),
+      userId,
+      createdAt: new Date().toISOString(),
+      kind: "single",
+      input: text,
+      result,
+      rawLabel: result.sentiment,
+    }
+    await withStore("readwrite", (store) => store.put(record))
+    return record
+  }
+
+  static async addBatch(userId: string, fileName: string, result: BatchResult): Promise<BatchHistoryRecord> {
+    const record: BatchHistoryRecord = {
+      id: newId(),
+      userId,
+      createdAt: new Date().toISOString(),
+      kind: "batch",
+      input: fileName,
+      result,
+      rawCounts: countSentiments(result.reviews),
+    }
+    await withStore("readwrite", (store) => store.put(record))
+    return record
+  }
+
+  /** Lists a user's records, newest first. */
+  static async list(userId: string): Promise<HistoryRecord[]> {
+    const records = await withStore("readonly", (store) =>
+      store.index(USER_INDEX).getAll(IDBKeyRange.only(userId)),
+    )
+    return (records as HistoryRecord[]).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  static async get(userId: string, id: string): Promise<HistoryRecord | undefined> {
+    const record = (await withStore("readonly", (store) => store.get(id))) as HistoryRecord | undefined
+    return record?.userId === userId ? record : undefined
+  }
+
+  static async remove(userId: string, id: string): Promise<void> {
+    // Never delete another user's record, even with a guessed id
+    if (!(await this.get(userId, id))) return
+    await withStore("readwrite", (store) => store.delete(id))
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Logger Module
+ *
+ * Structured, level-controlled logging for the whole app. Use this instead of
+ * `console.*` so that production builds stay quiet and sensitive values never
+ * reach the browser console.
+ *
+ * Features:
+ * - debug / info / warn / error levels
+ * - Minimum level chosen from NEXT_PUBLIC_ENVIRONMENT
+ * - Scoped loggers that prefix every entry, e.g. `[auth]`
+ * - Redaction of tokens, passwords and review text in logged context
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export type LogContext = Record<string, unknown>
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+}
+
+/**
+ * Minimum level per deployment environment. Unknown or unset environments
+ * log warnings and errors only, so a missing build variable cannot turn
+ * debug output on in production.
+ */
+const ENVIRONMENT_LEVELS: Record<string, LogLevel> = {
+  production: "warn",
+  staging: "info",
+  development: "debug",
+  test: "warn",
+}
+
+const MIN_LEVEL: LogLevel = ENVIRONMENT_LEVELS[process.env.NEXT_PUBLIC_ENVIRONMENT ?? ""] ?? "warn"
+
+// Keys whose values must never be logged
+const SECRET_KEYS = /token|password|secret|authorization|cookie|api[-_]?key/i
+
+// Keys holding customer review text; logged only as a length
+const REVIEW_TEXT_KEYS = new Set(["text", "review", "reviews", "original_text", "processed_text"])
+
+// Bearer credentials and JWTs embedded in free-form strings
+const BEARER_PATTERN = /Bearer\s+[\w.~+/-]+=*/gi
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+\b/g
+
+function redactString(value: string): string {
+  return value.replace(BEARER_PATTERN, "Bearer [REDACTED]").replace(JWT_PATTERN, "[REDACTED JWT]")
+}
+
+/**
+ * Returns a copy of `value` that is safe to log: secrets are masked, review
+ * text is replaced by its length and errors are reduced to name and message.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (depth > 5) return "[Truncated]"
+  if (typeof value === "string") return redactString(value)
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1))
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      if (SECRET_KEYS.test(key)) {
+        result[key] = "[REDACTED]"
+      } else if (REVIEW_TEXT_KEYS.has(key) && typeof item === "string") {
+        result[key] = `[REDACTED ${item.length} chars]`
+      } else if (REVIEW_TEXT_KEYS.has(key) && Array.isArray(item)) {
+        result[key] = `[REDACTED ${item.length} items]`
+      } else {
+        result[key] = redact(item, depth + 1)
+      }
+    }
+    return result
+  }
+  return value
+}
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void
+  info(message: string, context?: LogContext): void
+  warn(message: string, context?: LogContext): void
+  error(message: string, context?: LogContext): void
+}
+
+function shouldLog(level: LogLevel): boolean {
+  return LEVEL_ORDER[level] >= LEVEL_ORDER[MIN_LEVEL]
+}
+
+function write(level: LogLevel, scope: string, message: string, context?: LogContext): void {
+  if (!shouldLog(level)) return
+  const line = `[${scope}] ${redactString(message)}`
+  if (context === undefined) {
+    console[level](line)
+  } else {
+    console[level](line, redact(context))
+  }
+}
+
+/**
+ * Creates a logger whose entries are prefixed with `scope`.
+ *
+ * @example
+ * const log = createLogger("auth")
+ * log.info("Login succeeded", { userId: user.id })
+ */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, context) => write("debug", scope, message, context),
+    info: (message, context) => write("info", scope, message, context),
+    warn: (message, context) => write("warn", scope, message, context),
+    error: (message, context) => write("error", scope, message, context),
+  }
+}
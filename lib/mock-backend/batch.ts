@@ -0,0 +1,67 @@
+/**
+ * Mock Batch Processing
+ *
+ * Turns an uploaded CSV into the batch response the real backend returns:
+ * one scored entry per review plus the summary block.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { parseCsv } from "../csv"
+import { scoreText } from "./lexicon"
+
+/**
+ * Extracts review texts from a CSV with a `review` header column.
+ *
+ * @returns The reviews, or null when the file is not valid CSV or has no `review` column
+ */
+export function extractReviews(csv: string): string[] | null {
+  let parsed
+  try {
+    parsed = parseCsv(csv)
+  } catch {
+    return null
+  }
+  const column = parsed.headers.findIndex((header) => header.toLowerCase() === "review")
+  if (column === -1) return null
+  return parsed.rows.map((row) => (row[column] ?? "").trim()).filter((review) => review.length > 0)
+}
+
+function percentage(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 10000) / 100
+}
+
+/** Scores `reviews` and builds the response body for `POST /api/batch`. */
+export function buildBatchResponse(fileName: string, userId: string, reviews: string[]) {
+  const processedAt = new Date()
+  const scored = reviews.map((text, index) => ({
+    index,
+    original_text: text,
+    ...scoreText(text),
+  }))
+
+  const count = (label: string) => scored.filter((review) => review.sentiment === label).length
+  const positive = count("POSITIVE")
+  const negative = count("NEGATIVE")
+  const neutral = count("NEUTRAL")
+  const total = scored.length
+
+  return {
+    file_name: fileName,
+    message: "Batch analysis completed successfully",
+    processing_timestamp: processedAt.toISOString(),
+    reviews: scored,
+    s3_key: `uploads/${userId}/${processedAt.getTime()}_${fileName}`,
+    summary: {
+      positive,
+      negative,
+      neutral,
+      positive_percentage: percentage(positive, total),
+      negative_percentage: percentage(negative, total),
+      neutral_percentage: percentage(neutral, total),
+      total_reviews: total,
+    },
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Mock Backend HTTP Helpers
+ *
+ * Shared plumbing for the mock API route handlers under `app/api` and
+ * `app/health`. The routes only answer when NEXT_PUBLIC_USE_MOCK_API is
+ * "true"; otherwise they return 404 so a production build never serves them.
+ *
+ * Failure simulation (server-side environment variables):
+ * - MOCK_API_LATENCY_MS: fixed delay ("400") or random range ("200-1200")
+ * - MOCK_API_FAILURE_RATE: probability (0-1) of a 503 with Retry-After
+ * - MOCK_API_FORCE_STATUS: answer every request with this status (401, 429, 500, 503, ...)
+ *
+ * The `x-mock-latency` and `x-mock-status` request headers override the
+ * latency and forced status for a single request.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { verifyToken, type MockUser } from "./store"
+
+export const MOCK_API_ENABLED = process.env.NEXT_PUBLIC_USE_MOCK_API === "true"
+
+type RouteHandler<C> = (request: Request, context: C) => Response | Promise<Response>
+
+const SIMULATED_ERRORS: Record<number, { message: string; retryAfter?: string }> = {
+  401: { message: "Unauthorized" },
+  429: { message: "Too many requests", retryAfter: "2" },
+  500: { message: "Internal server error" },
+  502: { message: "Bad gateway" },
+  503: { message: "Service unavailable", retryAfter: "1" },
+  504: { message: "Gateway timeout" },
+}
+
+export function jsonError(status: number, message: string, extra: Record<string, unknown> = {}): Response {
+  return Response.json({ message, ...extra }, { status })
+}
+
+function parseLatency(value: string | null | undefined): number {
+  if (!value) return 0
+  const [min, max] = value.split("-").map(Number)
+  if (!Number.isFinite(min)) return 0
+  if (!Number.isFinite(max)) return min
+  return min + Math.random() * (max - min)
+}
+
+function simulatedError(status: number): Response {
+  const { message, retryAfter } = SIMULATED_ERRORS[status] ?? { message: `Simulated error ${status}` }
+  const headers: HeadersInit = retryAfter ? { "Retry-After": retryAfter } : {}
+  return Response.json({ message }, { status, headers })
+}
+
+/**
+ * Wraps a route handler with the mock toggle, latency and failure simulation.
+ */
+export function mockRoute<C = unknown>(handler: RouteHandler<C>): RouteHandler<C> {
+  return async (request, context) => {
+    if (!MOCK_API_ENABLED) return jsonError(404, "Not found")
+
+    const latency = parseLatency(request.headers.get("x-mock-latency") ?? process.env.MOCK_API_LATENCY_MS)
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency))
+    }
+
+    const forcedStatus = Number(request.headers.get("x-mock-status") ?? process.env.MOCK_API_FORCE_STATUS)
+    if (forcedStatus >= 400) return simulatedError(forcedStatus)
+
+    const failureRate = Number(process.env.MOCK_API_FAILURE_RATE ?? 0)
+    if (failureRate > 0 && Math.random() < failureRate) return simulatedError(503)
+
+    return handler(request, context)
+  }
+}
+
+/**
+ * Resolves the bearer token on `request` to a mock user.
+ *
+ * @returns The user, or a 401 response to return as-is
+ */
+export function requireUser(request: Request): MockUser | Response {
+  const header = request.headers.get("Authorization") ?? ""
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : ""
+  const user = token ? verifyToken(token) : undefined
+  return user ?? jsonError(401, "Invalid or expired token")
+}
+
+/** Reads a JSON body, returning an empty object when it is missing or malformed. */
+export async function readJson(request: Request): Promise<Record<string, unknown>> {
+  try {
+    const body = await request.json()
+    return body && typeof body === "object" ? body : {}
+  } catch {
+    return {}
+  }
+}
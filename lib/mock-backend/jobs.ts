@@ -0,0 +1,60 @@
+/**
+ * Mock Batch Jobs
+ *
+ * Asynchronous batch jobs for the mock backend. A job does no work in the
+ * background: its status is worked out from the time since it was
+ * submitted, queued at first, then processing with progress in proportion
+ * to the time spent, then completed. The result is built the first time
+ * the job is seen completed and saved with the user's other batches.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { buildBatchResponse } from "./batch"
+import { saveBatch, saveJob, type MockJob } from "./store"
+
+const QUEUED_MS = 1000
+const BASE_DURATION_MS = 2000
+const PER_REVIEW_MS = 20
+const MAX_DURATION_MS = 60_000
+
+/** Creates a job whose duration grows with the number of reviews. */
+export function createJob(userId: string, fileName: string, reviews: string[]): MockJob {
+  const job: MockJob = {
+    id: crypto.randomUUID(),
+    userId,
+    fileName,
+    reviews,
+    submittedAt: Date.now(),
+    durationMs: Math.min(MAX_DURATION_MS, BASE_DURATION_MS + reviews.length * PER_REVIEW_MS),
+  }
+  saveJob(job)
+  return job
+}
+
+/** Builds the body of `GET /api/batch/jobs/{job_id}` for `job` as of `now`. */
+export function jobStatus(job: MockJob, now = Date.now()) {
+  const base = {
+    job_id: job.id,
+    file_name: job.fileName,
+    submitted_at: new Date(job.submittedAt).toISOString(),
+  }
+  const elapsed = now - job.submittedAt
+  const total = job.reviews.length
+
+  if (elapsed < QUEUED_MS) {
+    return { ...base, status: "queued" as const, progress: { processed: 0, total } }
+  }
+  if (elapsed < QUEUED_MS + job.durationMs) {
+    const processed = Math.floor((total * (elapsed - QUEUED_MS)) / job.durationMs)
+    return { ...base, status: "processing" as const, progress: { processed, total } }
+  }
+
+  if (!job.result) {
+    job.result = buildBatchResponse(job.fileName, job.userId, job.reviews)
+    saveBatch(job.userId, job.result)
+  }
+  return { ...base, status: "completed" as const, progress: { processed: total, total }, result: job.result }
+}
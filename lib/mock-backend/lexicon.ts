@@ -0,0 +1,67 @@
+/**
+ * Mock Lexicon Scorer
+ *
+ * Deterministic stand-in for the sentiment model used by the mock backend.
+ * Scores text against small positive/negative word lists with basic
+ * negation and intensifier handling, so the same input always produces the
+ * same label and confidence.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+const POSITIVE_WORDS = new Set([
+  "amazing", "awesome", "best", "brilliant", "delighted", "excellent", "fantastic", "fast", "good",
+  "great", "happy", "helpful", "impressive", "love", "loved", "loves", "nice", "outstanding", "perfect",
+  "pleased", "recommend", "reliable", "satisfied", "solid", "superb", "wonderful", "works", "worth",
+])
+
+const NEGATIVE_WORDS = new Set([
+  "awful", "bad", "broke", "broken", "cheap", "defective", "disappointed", "disappointing", "poor",
+  "refund", "return", "returned", "slow", "terrible", "useless", "waste", "worse", "worst", "hate",
+  "hated", "horrible", "faulty", "flimsy", "unhappy", "unreliable", "overpriced", "annoying", "junk",
+])
+
+const NEGATIONS = new Set(["not", "no", "never", "isn't", "wasn't", "don't", "doesn't", "didn't", "hardly"])
+
+const INTENSIFIERS = new Set(["very", "really", "extremely", "absolutely", "so", "super", "totally"])
+
+export type MockLabel = "POSITIVE" | "NEGATIVE" | "NEUTRAL"
+
+export interface MockScore {
+  sentiment: MockLabel
+  confidence: number
+}
+
+/**
+ * Scores `text` with the lexicon.
+ *
+ * A word flips polarity when one of the two preceding tokens is a negation,
+ * and counts double after an intensifier. Confidence grows with the absolute
+ * score and is rounded to four decimals like the real model's output.
+ */
+export function scoreText(text: string): MockScore {
+  const tokens = text.toLowerCase().match(/[a-z']+/g) ?? []
+  let score = 0
+
+  tokens.forEach((token, position) => {
+    const polarity = POSITIVE_WORDS.has(token) ? 1 : NEGATIVE_WORDS.has(token) ? -1 : 0
+    if (polarity === 0) return
+
+    const previous = tokens.slice(Math.max(0, position - 2), position)
+    const negated = previous.some((word) => NEGATIONS.has(word))
+    const weight = previous.some((word) => INTENSIFIERS.has(word)) ? 2 : 1
+    score += (negated ? -polarity : polarity) * weight
+  })
+
+  if (score === 0) {
+    return { sentiment: "NEUTRAL", confidence: 0.5 }
+  }
+
+  const confidence = 0.5 + 0.4999 * (1 - Math.exp(-Math.abs(score)))
+  return {
+    sentiment: score > 0 ? "POSITIVE" : "NEGATIVE",
+    confidence: Math.round(confidence * 10000) / 10000,
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Mock Backend Store
+ *
+ * In-memory users, tokens, batch jobs and finished batches for the mock
+ * backend. State lives on `globalThis` so it survives dev-server hot
+ * reloads, and is seeded with a demo account (demo@example.com / password)
+ * so the app is usable at once.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import type { buildBatchResponse } from "./batch"
+
+export interface MockUser {
+  id: string
+  name: string
+  email: string
+  password: string
+  memberSince: string
+}
+
+/** A finished batch as returned by `POST /api/batch`, kept for the batch history endpoints. */
+export type MockBatch = ReturnType<typeof buildBatchResponse>
+
+/**
+ * An asynchronous batch job. Its status is worked out from the time since
+ * it was submitted (see `mock-backend/jobs`); `result` is set once it has
+ * finished.
+ */
+export interface MockJob {
+  id: string
+  userId: string
+  fileName: string
+  reviews: string[]
+  submittedAt: number
+  durationMs: number
+  result?: MockBatch
+}
+
+interface MockState {
+  users: Map<string, MockUser>
+  nextId: number
+  // Finished batches per user id, newest first
+  batches: Map<string, MockBatch[]>
+  jobs: Map<string, MockJob>
+}
+
+const globalState = globalThis as typeof globalThis & { __sentimentMockState?: MockState }
+
+function createState(): MockState {
+  const demo: MockUser = {
+    id: "1",
+    name: "Demo User",
+    email: "demo@example.com",
+    password: "password",
+    memberSince: "2025-01-01T00:00:00.000Z",
+  }
+  return { users: new Map([[demo.email, demo]]), nextId: 2, batches: new Map(), jobs: new Map() }
+}
+
+function state(): MockState {
+  globalState.__sentimentMockState ??= createState()
+  return globalState.__sentimentMockState
+}
+
+export function findUserByEmail(email: string): MockUser | undefined {
+  return state().users.get(email.trim().toLowerCase())
+}
+
+export function findUserById(id: string): MockUser | undefined {
+  for (const user of state().users.values()) {
+    if (user.id === id) return user
+  }
+  return undefined
+}
+
+export function createUser(name: string, email: string, password: string): MockUser {
+  const current = state()
+  const user: MockUser = {
+    id: String(current.nextId++),
+    name: name.trim(),
+    email: email.trim().toLowerCase(),
+    password,
+    memberSince: new Date().toISOString(),
+  }
+  current.users.set(user.email, user)
+  return user
+}
+
+/** Public view of a user, as returned by the real API. */
+export function toPublicUser({ id, name, email, memberSince }: MockUser) {
+  return { id, name, email, memberSince }
+}
+
+// Oldest batches are dropped beyond this many per user
+const MAX_STORED_BATCHES = 100
+
+export function saveBatch(userId: string, batch: MockBatch): void {
+  const batches = state().batches
+  batches.set(userId, [batch, ...(batches.get(userId) ?? [])].slice(0, MAX_STORED_BATCHES))
+}
+
+/** The user's finished batches, newest first. */
+export function listBatches(userId: string): MockBatch[] {
+  return state().batches.get(userId) ?? []
+}
+
+export function findBatch(userId: string, s3Key: string): MockBatch | undefined {
+  return listBatches(userId).find((batch) => batch.s3_key === s3Key)
+}
+
+export function saveJob(job: MockJob): void {
+  state().jobs.set(job.id, job)
+}
+
+/** A job submitted by `userId`; other users' jobs are not found. */
+export function findJob(userId: string, jobId: string): MockJob | undefined {
+  const job = state().jobs.get(jobId)
+  return job?.userId === userId ? job : undefined
+}
+
+const TOKEN_PREFIX = "mock."
+const TOKEN_TTL_MS = 60 * 60 * 1000
+
+/** Issues an opaque token encoding the user id and expiry. */
+export function issueToken(user: MockUser): string {
+  const payload = JSON.stringify({ sub: user.id, exp: Date.now() + TOKEN_TTL_MS })
+  return TOKEN_PREFIX + Buffer.from(payload).toString("base64url")
+}
+
+/** Resolves a token back to its user, or undefined when invalid or expired. */
+export function verifyToken(token: string): MockUser | undefined {
+  if (!token.startsWith(TOKEN_PREFIX)) return undefined
+  try {
+    const payload = JSON.parse(Buffer.from(token.slice(TOKEN_PREFIX.length), "base64url").toString())
+    if (typeof payload.sub !== "string" || typeof payload.exp !== "number" || payload.exp < Date.now()) {
+      return undefined
+    }
+    return findUserById(payload.sub)
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Results Filter Module
+ *
+ * Filter and sort state shared by the results table and the charts above
+ * it. Charts write to the filter when a segment is clicked; the table reads
+ * it, together with its own search and sort controls, to decide which rows
+ * to show and in what order.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import type { ReviewMetadata } from "./review-import"
+import { SENTIMENT_LABELS, type SentimentLabel } from "./sentiment"
+
+/**
+ * @property sentiment - Only rows with this displayed sentiment, or "all"
+ * @property confidenceRange - Confidence bounds [min, max) matching the chart
+ *   histogram bins; a max of 1 is inclusive
+ * @property query - Case-insensitive text the review, product or author must contain
+ * @property product - Only rows for this product, or null for any product.
+ *   Not a sentinel string, since any string can be a product name
+ * @property rating - Only rows whose rating rounds to this value, or "all"
+ * @property dateRange - Inclusive YYYY-MM-DD bounds; "" leaves a side open.
+ *   Rows without a date are hidden while either bound is set
+ */
+export interface ResultsFilter {
+  sentiment: SentimentLabel | "all"
+  confidenceRange: [number, number]
+  query: string
+  product: string | null
+  rating: number | "all"
+  dateRange: [string, string]
+}
+
+export const DEFAULT_RESULTS_FILTER: ResultsFilter = {
+  sentiment: "all",
+  confidenceRange: [0, 1],
+  query: "",
+  product: null,
+  rating: "all",
+  dateRange: ["", ""],
+}
+
+export type SortKey = "index" | "sentiment" | "confidence" | "product" | "date" | "rating"
+export type SortDirection = "asc" | "desc"
+
+export interface ResultsSort {
+  key: SortKey
+  direction: SortDirection
+}
+
+export const DEFAULT_RESULTS_SORT: ResultsSort = { key: "index", direction: "asc" }
+
+/** Minimal row shape the filter and sort helpers work on. */
+export interface FilterableResult {
+  index: number
+  review: string
+  sentiment: SentimentLabel
+  confidence: number
+  metadata?: ReviewMetadata
+}
+
+export function isFilterActive(filter: ResultsFilter): boolean {
+  return (
+    filter.sentiment !== DEFAULT_RESULTS_FILTER.sentiment ||
+    filter.confidenceRange[0] !== DEFAULT_RESULTS_FILTER.confidenceRange[0] ||
+    filter.confidenceRange[1] !== DEFAULT_RESULTS_FILTER.confidenceRange[1] ||
+    filter.query.trim() !== "" ||
+    filter.product !== null ||
+    filter.rating !== "all" ||
+    filter.dateRange[0] !== "" ||
+    filter.dateRange[1] !== ""
+  )
+}
+
+export function applyResultsFilter<T extends FilterableResult>(items: T[], filter: ResultsFilter): T[] {
+  if (!isFilterActive(filter)) return items
+
+  const [min, max] = filter.confidenceRange
+  const [from, to] = filter.dateRange
+  const query = filter.query.trim().toLowerCase()
+  const matchesQuery = (item: T) =>
+    item.review.toLowerCase().includes(query) ||
+    (item.metadata?.product?.toLowerCase().includes(query) ?? false) ||
+    (item.metadata?.author?.toLowerCase().includes(query) ?? false)
+
+  return items.filter(
+    (item) =>
+      (filter.sentiment === "all" || item.sentiment === filter.sentiment) &&
+      item.confidence >= min &&
+      (item.confidence < max || (max >= 1 && item.confidence <= max)) &&
+      (filter.product === null || item.metadata?.product === filter.product) &&
+      (filter.rating === "all" ||
+        (item.metadata?.rating !== undefined && Math.round(item.metadata.rating) === filter.rating)) &&
+      (from === "" || (item.metadata?.date !== undefined && item.metadata.date >= from)) &&
+      (to === "" || (item.metadata?.date !== undefined && item.metadata.date <= to)) &&
+      (query === "" || matchesQuery(item)),
+  )
+}
+
+/** Distinct product names in `items`, sorted for a filter menu. */
+export function distinctProducts(items: FilterableResult[]): string[] {
+  const products = new Set<string>()
+  for (const item of items) if (item.metadata?.product) products.add(item.metadata.product)
+  return [...products].sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Returns a sorted copy of `items`. Ties fall back to the original row
+ * index so the order is stable across re-sorts. Rows missing the sorted
+ * metadata field go last in either direction.
+ */
+export function sortResults<T extends FilterableResult>(items: T[], sort: ResultsSort): T[] {
+  const sign = sort.direction === "asc" ? 1 : -1
+  const compare = (a: T, b: T): number => {
+    switch (sort.key) {
+      case "sentiment":
+        return sign * (SENTIMENT_LABELS.indexOf(a.sentiment) - SENTIMENT_LABELS.indexOf(b.sentiment))
+      case "confidence":
+        return sign * (a.confidence - b.confidence)
+      case "product":
+      case "date":
+      case "rating": {
+        const left = a.metadata?.[sort.key]
+        const right = b.metadata?.[sort.key]
+        if (left === undefined || right === undefined) {
+          return left === right ? 0 : left === undefined ? 1 : -1
+        }
+        return sign * (typeof left === "number" ? left - (right as number) : String(left).localeCompare(String(right)))
+      }
+      case "index":
+        return 0
+    }
+  }
+  return [...items].sort((a, b) => compare(a, b) || sign * (a.index - b.index))
+}
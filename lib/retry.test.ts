@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { RateLimitedError, ServerError, ValidationError } from "./api-errors"
+import { DEFAULT_RETRY_OPTIONS, backoffDelay, isAbortError, withRetry } from "./retry"
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("backoffDelay", () => {
+  it("doubles the ceiling per attempt up to maxDelayMs", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1)
+    const error = new ServerError(503, "Unavailable")
+    expect([0, 1, 2, 3, 4, 5, 10].map((attempt) => backoffDelay(attempt, error, DEFAULT_RETRY_OPTIONS))).toEqual([
+      500, 1000, 2000, 4000, 8000, 10_000, 10_000,
+    ])
+  })
+
+  it("waits a random share of the ceiling", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.25)
+    expect(backoffDelay(2, new ServerError(503, "Unavailable"), DEFAULT_RETRY_OPTIONS)).toBe(500)
+  })
+
+  it("uses Retry-After over the backoff, capped at maxDelayMs", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1)
+    expect(backoffDelay(0, new RateLimitedError("Slow down", 3), DEFAULT_RETRY_OPTIONS)).toBe(3000)
+    expect(backoffDelay(0, new ServerError(503, "Unavailable", 2), DEFAULT_RETRY_OPTIONS)).toBe(2000)
+    expect(backoffDelay(0, new RateLimitedError("Slow down", 600), DEFAULT_RETRY_OPTIONS)).toBe(10_000)
+  })
+})
+
+describe("withRetry", () => {
+  const fast = { baseDelayMs: 1, maxDelayMs: 1 }
+
+  it("retries transient failures until the operation succeeds", async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new ServerError(503, "Unavailable"))
+      .mockRejectedValueOnce(new RateLimitedError("Slow down"))
+      .mockResolvedValue("ok")
+    await expect(withRetry(operation, fast)).resolves.toBe("ok")
+    expect(operation).toHaveBeenCalledTimes(3)
+  })
+
+  it("gives up after the configured number of retries", async () => {
+    const error = new ServerError(502, "Bad gateway")
+    const operation = vi.fn<() => Promise<string>>().mockRejectedValue(error)
+    await expect(withRetry(operation, { ...fast, retries: 2 })).rejects.toBe(error)
+    expect(operation).toHaveBeenCalledTimes(3)
+  })
+
+  it("does not retry client errors or non-gateway server errors", async () => {
+    for (const error of [new ValidationError(422, "Invalid"), new ServerError(500, "Internal error")]) {
+      const operation = vi.fn<() => Promise<string>>().mockRejectedValue(error)
+      await expect(withRetry(operation, fast)).rejects.toBe(error)
+      expect(operation).toHaveBeenCalledTimes(1)
+    }
+  })
+
+  it("rejects with an AbortError when aborted during the wait", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(1)
+    const controller = new AbortController()
+    const operation = vi.fn<() => Promise<string>>().mockRejectedValue(new ServerError(503, "Unavailable"))
+    const result = withRetry(operation, { baseDelayMs: 60_000, maxDelayMs: 60_000 }, controller.signal)
+    // Let the first attempt fail and the wait begin
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    controller.abort()
+    const error = await result.catch((error: unknown) => error)
+    expect(isAbortError(error)).toBe(true)
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Retry Module
+ *
+ * Jittered exponential backoff for transient API failures. API Gateway cold
+ * starts regularly surface as 502/503/504 or a dropped connection, and a
+ * short, randomized wait is usually enough for the next attempt to succeed.
+ *
+ * Only calls that are safe to repeat should opt in; the HTTP client never
+ * retries unless asked to.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { NetworkError, RateLimitedError, ServerError } from "./api-errors"
+import { createLogger } from "./logger"
+
+const log = createLogger("retry")
+
+/**
+ * Retry configuration.
+ *
+ * @property retries - Extra attempts after the first failure
+ * @property baseDelayMs - Backoff ceiling for the first retry; doubles per attempt
+ * @property maxDelayMs - Upper bound for any single wait, including Retry-After
+ * @property shouldRetry - Decides whether an error is transient
+ */
+export interface RetryOptions {
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  shouldRetry: (error: unknown) => boolean
+}
+
+const RETRYABLE_STATUSES = new Set([502, 503, 504])
+
+/** Network failures, gateway errors and rate limits are worth another attempt. */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof RateLimitedError) return true
+  return error instanceof ServerError && RETRYABLE_STATUSES.has(error.status)
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  shouldRetry: isTransientError,
+}
+
+/** True for the error raised when an AbortSignal cancels an operation. */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError"
+}
+
+function abortError(): DOMException {
+  return new DOMException("The operation was aborted.", "AbortError")
+}
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with an AbortError as soon as
+ * `signal` is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Computes the wait before retry number `attempt` (0-based).
+ * Uses "full jitter": a random delay between 0 and the exponential ceiling,
+ * unless the server asked for a specific delay via Retry-After.
+ */
+export function backoffDelay(attempt: number, error: unknown, options: RetryOptions): number {
+  const retryAfterSeconds =
+    error instanceof RateLimitedError || error instanceof ServerError ? error.retryAfterSeconds : undefined
+  if (retryAfterSeconds !== undefined) {
+    return Math.min(retryAfterSeconds * 1000, options.maxDelayMs)
+  }
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt)
+  return Math.random() * ceiling
+}
+
+/**
+ * Runs `operation`, retrying transient failures with backoff.
+ *
+ * @param operation - Function performing one attempt
+ * @param options - Overrides for {@link DEFAULT_RETRY_OPTIONS}
+ * @param signal - Aborts both the pending wait and further attempts
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: Partial<RetryOptions> = {},
+  signal?: AbortSignal,
+): Promise<T> {
+  const config = { ...DEFAULT_RETRY_OPTIONS, ...options }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (isAbortError(error) || attempt >= config.retries || !config.shouldRetry(error)) {
+        throw error
+      }
+      const delayMs = backoffDelay(attempt, error, config)
+      log.info("Retrying after transient failure", { attempt: attempt + 1, delayMs: Math.round(delayMs), error })
+      await sleep(delayMs, signal)
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { splitPastedText } from "./review-formats"
+
+describe("splitPastedText", () => {
+  it("reads quoted cells copied from a spreadsheet", () => {
+    const { headers, rows } = splitPastedText('"two\nlines"\t5\nok product\t3', false)
+    expect(headers).toEqual(["Column 1", "Column 2"])
+    expect(rows).toEqual([
+      ["two\nlines", "5"],
+      ["ok product", "3"],
+    ])
+  })
+
+  it("keeps an unclosed quote as typed text", () => {
+    const { headers, rows } = splitPastedText('"Best purchase ever\t5\nok product\t3', false)
+    expect(headers).toEqual(["Column 1", "Column 2"])
+    expect(rows).toEqual([
+      ['"Best purchase ever', "5"],
+      ["ok product", "3"],
+    ])
+  })
+})
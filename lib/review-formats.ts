@@ -0,0 +1,281 @@
+/**
+ * Review File Formats Module
+ *
+ * Reads the file formats accepted for batch analysis into the same header
+ * and rows shape, so every format goes through one preview, column mapping
+ * and upload flow. Whatever the input, the upload is the normalized CSV
+ * built by `buildUploadFile`.
+ *
+ * Features:
+ * - CSV with delimiter detection, and tab-separated TSV
+ * - JSON Lines: one object per line, its keys becoming columns; lines that
+ *   are plain JSON strings are read as review text
+ * - Excel workbooks: the first sheet with data, with date cells as
+ *   YYYY-MM-DD and other cells as displayed in Excel
+ * - Plain text: one review per line
+ * - Pasted text, including tab-separated cells copied from Excel or Google
+ *   Sheets, split into reviews and turned into an in-memory TSV file
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import {
+  decodeText,
+  formatCsv,
+  parseCsv,
+  parseCsvRecords,
+  CsvParseError,
+  type CsvDelimiter,
+  type DecodedText,
+} from "./csv"
+
+export type ReviewFileFormat = "csv" | "tsv" | "jsonl" | "xlsx" | "txt"
+
+export const REVIEW_FILE_FORMAT_LABELS: Record<ReviewFileFormat, string> = {
+  csv: "CSV",
+  tsv: "TSV",
+  jsonl: "JSON Lines",
+  xlsx: "Excel",
+  txt: "Plain text",
+}
+
+const FORMAT_EXTENSIONS: Record<ReviewFileFormat, string[]> = {
+  csv: [".csv"],
+  tsv: [".tsv", ".tab"],
+  jsonl: [".jsonl", ".ndjson"],
+  xlsx: [".xlsx", ".xls"],
+  txt: [".txt"],
+}
+
+const FORMAT_MIME_TYPES: Record<ReviewFileFormat, string[]> = {
+  csv: ["text/csv"],
+  tsv: ["text/tab-separated-values"],
+  jsonl: ["application/x-ndjson", "application/jsonl"],
+  xlsx: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", "application/vnd.ms-excel"],
+  txt: ["text/plain"],
+}
+
+/** Largest review file accepted for upload. */
+export const MAX_REVIEW_FILE_SIZE = 10 * 1024 * 1024
+
+/** Every accepted extension, e.g. for a file input's `accept` attribute. */
+export const REVIEW_FILE_EXTENSIONS = Object.values(FORMAT_EXTENSIONS).flat()
+
+/** MIME types mapped to extensions, the shape `react-dropzone` expects for `accept`. */
+export const REVIEW_FILE_ACCEPT: Record<string, string[]> = Object.fromEntries(
+  (Object.keys(FORMAT_MIME_TYPES) as ReviewFileFormat[]).flatMap((format) =>
+    FORMAT_MIME_TYPES[format].map((type, position) => [type, position === 0 ? FORMAT_EXTENSIONS[format] : []]),
+  ),
+)
+
+// Header of the single column read from plain-text files and JSON string lines
+const REVIEW_HEADER = "review"
+
+/** The file is not valid for its format, e.g. a JSON Lines file with a broken line. */
+export class ReviewFileError extends Error {
+  readonly line?: number
+
+  constructor(message: string, line?: number) {
+    super(message)
+    this.name = "ReviewFileError"
+    this.line = line
+  }
+}
+
+/**
+ * A file read into a header and rows. `delimiter` is set for CSV and TSV,
+ * `decoded` for every text format.
+ */
+export interface ParsedReviewFile {
+  format: ReviewFileFormat
+  headers: string[]
+  rows: string[][]
+  delimiter?: CsvDelimiter
+  decoded?: Omit<DecodedText, "text">
+}
+
+/**
+ * The format of a file, from its extension or else its MIME type; null when
+ * the file is not one of the accepted formats.
+ */
+export function reviewFileFormat(file: Pick<File, "name" | "type">): ReviewFileFormat | null {
+  const name = file.name.toLowerCase()
+  const formats = Object.keys(FORMAT_EXTENSIONS) as ReviewFileFormat[]
+  return (
+    formats.find((format) => FORMAT_EXTENSIONS[format].some((extension) => name.endsWith(extension))) ??
+    formats.find((format) => FORMAT_MIME_TYPES[format].includes(file.type)) ??
+    null
+  )
+}
+
+// Blank lines at the end of a file are not rows
+function dropTrailingBlankRows(rows: string[][]): string[][] {
+  let end = rows.length
+  while (end > 0 && rows[end - 1].every((cell) => cell.trim() === "")) end--
+  return rows.slice(0, end)
+}
+
+function jsonCell(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Reads JSON Lines text. Columns are the keys in the order they first
+ * appear; a line that is a JSON string fills the `review` column.
+ *
+ * @throws {ReviewFileError} When a line is not valid JSON, or is neither an object nor a string
+ */
+export function parseJsonLines(text: string): Pick<ParsedReviewFile, "headers" | "rows"> {
+  const columns = new Map<string, number>()
+  const records: Record<string, unknown>[] = []
+
+  text.split(/\r?\n/).forEach((line, position) => {
+    if (line.trim() === "") return
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch {
+      throw new ReviewFileError(`Line ${position + 1} is not valid JSON`, position + 1)
+    }
+    const record =
+      typeof value === "string"
+        ? { [REVIEW_HEADER]: value }
+        : value && typeof value === "object" && !Array.isArray(value)
+          ? (value as Record<string, unknown>)
+          : null
+    if (!record) throw new ReviewFileError(`Line ${position + 1} is not a JSON object`, position + 1)
+    for (const key of Object.keys(record)) if (!columns.has(key)) columns.set(key, columns.size)
+    records.push(record)
+  })
+
+  if (records.length === 0) throw new ReviewFileError("The file has no JSON lines", 1)
+  const headers = [...columns.keys()]
+  return { headers, rows: records.map((record) => headers.map((header) => jsonCell(record[header]))) }
+}
+
+/** Reads plain text as one review per line; blank lines are kept as empty rows. */
+export function parseTextLines(text: string): Pick<ParsedReviewFile, "headers" | "rows"> {
+  const rows = dropTrailingBlankRows(text.split(/\r?\n/).map((line) => [line]))
+  if (rows.length === 0) throw new ReviewFileError("The file is empty", 1)
+  return { headers: [REVIEW_HEADER], rows }
+}
+
+/**
+ * Reads the first sheet that has data. Date cells become YYYY-MM-DD and
+ * other cells keep the text Excel displays for them.
+ *
+ * @throws {ReviewFileError} When no sheet has data
+ */
+export async function parseWorkbook(bytes: Uint8Array): Promise<Pick<ParsedReviewFile, "headers" | "rows">> {
+  // Loaded on demand; the library is only needed for spreadsheets
+  const XLSX = await import("xlsx")
+  const workbook = XLSX.read(bytes, { type: "array", cellNF: true })
+  const sheet = workbook.SheetNames.map((name) => workbook.Sheets[name]).find((candidate) => candidate["!ref"])
+  if (!sheet) throw new ReviewFileError("The workbook has no data")
+
+  const range = XLSX.utils.decode_range(sheet["!ref"] as string)
+  const records: string[][] = []
+  for (let row = range.s.r; row <= range.e.r; row++) {
+    const record: string[] = []
+    for (let column = range.s.c; column <= range.e.c; column++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r: row, c: column })]
+      if (!cell || cell.v === undefined || cell.v === null) {
+        record.push("")
+      } else if (cell.t === "n" && cell.z && XLSX.SSF.is_date(cell.z)) {
+        // Read the serial number directly; converting through Date shifts it by the time zone
+        const date = XLSX.SSF.parse_date_code(cell.v as number)
+        record.push(`${date.y}-${String(date.m).padStart(2, "0")}-${String(date.d).padStart(2, "0")}`)
+      } else {
+        record.push(cell.w ?? String(cell.v))
+      }
+    }
+    records.push(record)
+  }
+
+  const [header, ...rows] = records
+  if (!header || header.every((name) => name.trim() === "")) {
+    throw new ReviewFileError("The first sheet has no header row", 1)
+  }
+  return {
+    headers: header.map((name, column) => name.trim() || `Column ${column + 1}`),
+    rows: dropTrailingBlankRows(rows),
+  }
+}
+
+/**
+ * Reads a review file of any accepted format.
+ *
+ * @throws {ReviewFileError} When the format is not accepted or the file is invalid for it
+ * @throws {CsvParseError} When a CSV or TSV file is malformed
+ */
+export async function parseReviewFile(file: File): Promise<ParsedReviewFile> {
+  const format = reviewFileFormat(file)
+  if (!format) {
+    throw new ReviewFileError(`Unsupported file type. Use one of: ${REVIEW_FILE_EXTENSIONS.join(", ")}`)
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  if (format === "xlsx") return { format, ...(await parseWorkbook(bytes)) }
+
+  const { text, ...decoded } = decodeText(bytes)
+  switch (format) {
+    case "csv":
+      return { format, ...parseCsv(text), decoded }
+    case "tsv":
+      return { format, ...parseCsv(text, { delimiter: "\t" }), decoded }
+    case "jsonl":
+      return { format, ...parseJsonLines(text), decoded }
+    case "txt":
+      return { format, ...parseTextLines(text), decoded }
+  }
+}
+
+function splitPastedCells(text: string): string[][] {
+  try {
+    return parseCsvRecords(text, "\t")
+  } catch (error) {
+    if (!(error instanceof CsvParseError)) throw error
+    return text.split(/\r?\n/).map((line) => line.split("\t"))
+  }
+}
+
+/**
+ * Splits pasted text into rows. Text with tabs is read as cells copied from
+ * a spreadsheet (which quotes cells holding line breaks); anything else is
+ * one review per line. Blank lines are dropped. A quote that is never
+ * closed, such as a review that starts with `"`, is typed text rather than
+ * spreadsheet quoting, so that paste is split on line breaks and tabs as is.
+ *
+ * @param firstRowIsHeader - Use the first line as column names; otherwise
+ *   columns are named `review` (one column) or `Column N`
+ */
+export function splitPastedText(
+  text: string,
+  firstRowIsHeader: boolean,
+): Pick<ParsedReviewFile, "headers" | "rows" | "delimiter"> {
+  const delimiter = text.includes("\t") ? "\t" : undefined
+  const records = (delimiter ? splitPastedCells(text) : text.split(/\r?\n/).map((line) => [line])).filter(
+    (record) => record.some((cell) => cell.trim() !== ""),
+  )
+  const [first = [], ...rest] = records
+  const width = Math.max(1, ...records.map((record) => record.length))
+
+  if (firstRowIsHeader && records.length > 0) {
+    return { headers: first.map((name, column) => name.trim() || `Column ${column + 1}`), rows: rest, delimiter }
+  }
+  const headers =
+    width === 1 ? [REVIEW_HEADER] : Array.from({ length: width }, (_, column) => `Column ${column + 1}`)
+  return { headers, rows: records, delimiter }
+}
+
+/**
+ * Writes pasted rows as an in-memory TSV file, so they go through the same
+ * import, preview and upload flow as a chosen file.
+ */
+export function buildPastedFile(headers: string[], rows: string[][], fileName: string): File {
+  return new File([formatCsv(headers, rows, "\t")], fileName, { type: "text/tab-separated-values" })
+}
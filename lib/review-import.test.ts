@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { EARLIEST_REVIEW_DATE, guessColumnMapping, parseDateCell } from "./review-import"
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("parseDateCell", () => {
+  it("reads ISO, slash-separated and written dates", () => {
+    expect(parseDateCell("2024-01-05")).toBe("2024-01-05")
+    expect(parseDateCell("2024-01-05T10:00:00Z")).toBe("2024-01-05")
+    expect(parseDateCell("1/2/2024")).toBe("2024-01-02")
+    expect(parseDateCell("25.12.2023")).toBe("2023-12-25")
+    expect(parseDateCell("March 3, 2024")).toBe("2024-03-03")
+  })
+
+  it("reads Unix timestamps in seconds and milliseconds as UTC dates", () => {
+    expect(parseDateCell("1704412800")).toBe("2024-01-05")
+    expect(parseDateCell("1704499199")).toBe("2024-01-05")
+    expect(parseDateCell("1704412800000")).toBe("2024-01-05")
+  })
+
+  it("rejects other bare numbers such as spreadsheet serial dates", () => {
+    for (const text of ["45123", "20240", "5", "45123.5", "17044128000"]) {
+      expect(parseDateCell(text)).toBeUndefined()
+    }
+  })
+
+  it("rejects dates before the earliest review date, in the future or impossible", () => {
+    vi.useFakeTimers({ now: new Date("2024-06-01T12:00:00Z") })
+    expect(EARLIEST_REVIEW_DATE).toBe("1995-01-01")
+    expect(parseDateCell("1994-12-31")).toBeUndefined()
+    expect(parseDateCell("1995-01-01")).toBe("1995-01-01")
+    expect(parseDateCell("2024-06-02")).toBe("2024-06-02")
+    expect(parseDateCell("2024-06-03")).toBeUndefined()
+    expect(parseDateCell("45123-01-01")).toBeUndefined()
+    expect(parseDateCell("2024-02-30")).toBeUndefined()
+  })
+})
+
+describe("guessColumnMapping", () => {
+  it("maps timestamp columns to the date role", () => {
+    expect(guessColumnMapping(["review", "timestamp", "stars"], 0)).toEqual({ date: 1, rating: 2 })
+  })
+})
@@ -0,0 +1,400 @@
+/**
+ * Review Import Module
+ *
+ * Prepares a selected file for batch analysis: reads and parses it, picks
+ * the column holding review text, flags rows that would be rejected or skew
+ * the results, and writes the normalized file that is actually uploaded.
+ *
+ * Features:
+ * - CSV, TSV, JSON Lines, Excel and plain-text input (see `parseReviewFile`),
+ *   with encoding-aware reading of text files
+ * - Review column guessed from common header names
+ * - Metadata columns (product, date, rating, author) mapped to roles and
+ *   joined back onto results by source row
+ * - Per-row issues: empty, duplicate, over-long, mis-encoded, ragged,
+ *   unreadable dates and ratings
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { formatCsv, type CsvDelimiter, type TextEncoding } from "./csv"
+import { parseReviewFile, type ReviewFileFormat } from "./review-formats"
+
+/** Reviews longer than this are flagged; the model truncates long input. */
+export const MAX_REVIEW_LENGTH = 5000
+
+/** Rows shown in the preview table. */
+export const PREVIEW_ROW_COUNT = 10
+
+/**
+ * A parsed file ready for column selection.
+ *
+ * @property delimiter - Field separator of a CSV or TSV file
+ * @property encoding - Text encoding; absent for Excel workbooks
+ * @property encodingFallback - The file was not valid UTF-8 and was decoded as Windows-1252
+ */
+export interface ImportedTable {
+  fileName: string
+  format: ReviewFileFormat
+  headers: string[]
+  rows: string[][]
+  delimiter?: CsvDelimiter
+  encoding?: TextEncoding
+  encodingFallback: boolean
+}
+
+export type ColumnRole = "product" | "date" | "rating" | "author"
+
+export const COLUMN_ROLES: readonly ColumnRole[] = ["product", "date", "rating", "author"]
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  product: "Product",
+  date: "Date",
+  rating: "Rating",
+  author: "Author",
+}
+
+/** Column index assigned to each metadata role; unmapped roles are absent. */
+export type ColumnMapping = Partial<Record<ColumnRole, number>>
+
+/**
+ * Metadata read from the mapped columns of one row.
+ *
+ * @property date - Calendar date as YYYY-MM-DD
+ * @property rating - The first number in the cell, e.g. 4 for "4/5 stars"
+ */
+export interface ReviewMetadata {
+  product?: string
+  date?: string
+  rating?: number
+  author?: string
+}
+
+export type ImportIssueKind =
+  | "empty"
+  | "duplicate"
+  | "too_long"
+  | "encoding"
+  | "column_count"
+  | "invalid_date"
+  | "invalid_rating"
+
+/**
+ * A problem with one row. `row` is the zero-based data row (the header is
+ * not counted), the same numbering results use for `index`.
+ */
+export interface ImportIssue {
+  kind: ImportIssueKind
+  row: number
+  message: string
+}
+
+/**
+ * @property skipDuplicates - Upload only the first copy of a repeated review
+ * @property skipTooLong - Leave out reviews over MAX_REVIEW_LENGTH
+ */
+export interface ImportOptions {
+  skipDuplicates: boolean
+  skipTooLong: boolean
+}
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  skipDuplicates: true,
+  skipTooLong: false,
+}
+
+/**
+ * What will be uploaded. `sourceRows[i]` is the data row `reviews[i]` came
+ * from and `metadata[i]` its mapped columns. Empty rows are always left out.
+ */
+export interface ImportPlan {
+  reviews: string[]
+  sourceRows: number[]
+  metadata: ReviewMetadata[]
+  issues: ImportIssue[]
+  issueCounts: Record<ImportIssueKind, number>
+}
+
+/**
+ * Reads a CSV, TSV, JSON Lines, Excel or plain-text file (see
+ * `parseReviewFile`) into a table for the preview.
+ */
+export async function readReviewFile(file: File): Promise<ImportedTable> {
+  const { decoded, ...parsed } = await parseReviewFile(file)
+  return {
+    fileName: file.name,
+    ...parsed,
+    encoding: decoded?.encoding,
+    encodingFallback: decoded?.fallback ?? false,
+  }
+}
+
+const REVIEW_COLUMN_NAMES = [
+  "review",
+  "review_text",
+  "reviews",
+  "text",
+  "review_body",
+  "body",
+  "comment",
+  "comments",
+  "content",
+  "feedback",
+]
+
+/**
+ * Picks the review column: a header with a well-known name, otherwise the
+ * column with the longest text on average.
+ */
+export function guessReviewColumn(table: Pick<ImportedTable, "headers" | "rows">): number {
+  const normalized = table.headers.map((header) => header.toLowerCase().replace(/[\s-]+/g, "_"))
+  for (const name of REVIEW_COLUMN_NAMES) {
+    const column = normalized.indexOf(name)
+    if (column !== -1) return column
+  }
+
+  const sample = table.rows.slice(0, 50)
+  let best = 0
+  let bestLength = -1
+  table.headers.forEach((_, column) => {
+    const length = sample.reduce((total, row) => total + (row[column]?.length ?? 0), 0)
+    if (length > bestLength) {
+      best = column
+      bestLength = length
+    }
+  })
+  return best
+}
+
+const ROLE_COLUMN_NAMES: Record<ColumnRole, string[]> = {
+  product: ["product", "product_id", "product_name", "productid", "sku", "asin", "item", "item_id"],
+  date: ["date", "review_date", "created_at", "created", "timestamp", "time", "posted", "posted_at"],
+  rating: ["rating", "stars", "star_rating", "score", "review_score", "overall"],
+  author: ["author", "reviewer", "reviewer_name", "user", "username", "user_name", "customer", "name"],
+}
+
+/** Assigns roles to columns whose header has a well-known name. */
+export function guessColumnMapping(headers: string[], reviewColumn: number): ColumnMapping {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[\s-]+/g, "_"))
+  const mapping: ColumnMapping = {}
+  for (const role of COLUMN_ROLES) {
+    const column = normalized.findIndex(
+      (header, index) => index !== reviewColumn && ROLE_COLUMN_NAMES[role].includes(header),
+    )
+    if (column !== -1) mapping[role] = column
+  }
+  return mapping
+}
+
+/**
+ * Earliest date a review can have. Older dates are typos or misread cells:
+ * the import flags them and the trend chart leaves them out.
+ */
+export const EARLIEST_REVIEW_DATE = "1995-01-01"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Latest date a review can have: today, with a day of slack for zones ahead of UTC. */
+export function latestReviewDate(): string {
+  return new Date(Date.now() + DAY_MS).toISOString().slice(0, 10)
+}
+
+/** Whether `date` (YYYY-MM-DD) lies between EARLIEST_REVIEW_DATE and `latest`. */
+export function isPlausibleReviewDate(date: string, latest = latestReviewDate()): boolean {
+  return date >= EARLIEST_REVIEW_DATE && date <= latest
+}
+
+function formatDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(year, month - 1, day)
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return undefined
+  const value = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+  return isPlausibleReviewDate(value) ? value : undefined
+}
+
+/**
+ * Reads a date cell as YYYY-MM-DD. Accepts ISO dates and timestamps, Unix
+ * timestamps in seconds (10 digits) or milliseconds (13 digits), slash- or
+ * dot-separated dates (month first unless the first part is over 12) and
+ * anything else `Date` can parse. Other bare numbers, such as spreadsheet
+ * serial dates, are rejected rather than guessed at, as are dates before
+ * EARLIEST_REVIEW_DATE or in the future.
+ */
+export function parseDateCell(text: string): string | undefined {
+  // Unix timestamps are read in UTC, like ISO timestamps ending in "Z"
+  const epoch = text.match(/^\s*(\d{10}|\d{13})\s*$/)
+  if (epoch) {
+    const date = new Date(epoch[1].length === 10 ? Number(epoch[1]) * 1000 : Number(epoch[1]))
+    return formatDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())
+  }
+
+  // `Date` reads "5" as May 2001 and "45123" as the year 45123
+  if (/^\s*[-+]?\d+(?:[.,]\d+)?\s*$/.test(text)) return undefined
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (iso) return formatDate(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+
+  const numeric = text.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/)
+  if (numeric) {
+    const [first, second, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])]
+    return first > 12 ? formatDate(year, second, first) : formatDate(year, first, second)
+  }
+
+  const parsed = new Date(text)
+  if (Number.isNaN(parsed.getTime())) return undefined
+  return formatDate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate())
+}
+
+/** Reads a rating cell as the first number in it, e.g. 4 for "4/5" or "4 stars". */
+export function parseRatingCell(text: string): number | undefined {
+  const match = text.match(/-?\d+(?:[.,]\d+)?/)
+  return match ? Number(match[0].replace(",", ".")) : undefined
+}
+
+function readMetadata(
+  row: string[],
+  rowIndex: number,
+  mapping: ColumnMapping,
+  issues: ImportIssue[],
+): ReviewMetadata {
+  const cell = (role: ColumnRole) => {
+    const column = mapping[role]
+    return column === undefined ? "" : (row[column] ?? "").trim()
+  }
+  const metadata: ReviewMetadata = {}
+
+  const product = cell("product")
+  if (product) metadata.product = product
+  const author = cell("author")
+  if (author) metadata.author = author
+
+  const date = cell("date")
+  if (date) {
+    const value = parseDateCell(date)
+    if (value === undefined) {
+      issues.push({ kind: "invalid_date", row: rowIndex, message: `Date "${date}" could not be read` })
+    } else {
+      metadata.date = value
+    }
+  }
+
+  const rating = cell("rating")
+  if (rating) {
+    const value = parseRatingCell(rating)
+    if (value === undefined) {
+      issues.push({ kind: "invalid_rating", row: rowIndex, message: `Rating "${rating}" is not a number` })
+    } else {
+      metadata.rating = value
+    }
+  }
+
+  return metadata
+}
+
+// U+FFFD replacement characters, and UTF-8 text that was read as
+// Windows-1252 somewhere upstream ("Ã©" for "é", "â€™" for "’")
+const MIS_ENCODED_PATTERN = /\uFFFD|\u00C3[\u00A0-\u00BF]|\u00E2\u20AC/
+
+function normalizeForComparison(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ")
+}
+
+export function planReviewImport(
+  table: ImportedTable,
+  column: number,
+  mapping: ColumnMapping,
+  options: ImportOptions,
+): ImportPlan {
+  const reviews: string[] = []
+  const sourceRows: number[] = []
+  const metadata: ReviewMetadata[] = []
+  const issues: ImportIssue[] = []
+  const firstSeen = new Map<string, number>()
+
+  table.rows.forEach((row, rowIndex) => {
+    const text = (row[column] ?? "").trim()
+
+    if (row.length !== table.headers.length) {
+      issues.push({
+        kind: "column_count",
+        row: rowIndex,
+        message: `Has ${row.length} field${row.length === 1 ? "" : "s"}; the header has ${table.headers.length}`,
+      })
+    }
+    if (text === "") {
+      issues.push({ kind: "empty", row: rowIndex, message: "No review text" })
+      return
+    }
+    if (MIS_ENCODED_PATTERN.test(text)) {
+      issues.push({ kind: "encoding", row: rowIndex, message: "Contains characters that look mis-encoded" })
+    }
+
+    const key = normalizeForComparison(text)
+    const original = firstSeen.get(key)
+    if (original !== undefined) {
+      issues.push({ kind: "duplicate", row: rowIndex, message: `Duplicate of row ${original + 1}` })
+      if (options.skipDuplicates) return
+    } else {
+      firstSeen.set(key, rowIndex)
+    }
+
+    if (text.length > MAX_REVIEW_LENGTH) {
+      issues.push({
+        kind: "too_long",
+        row: rowIndex,
+        message: `${text.length.toLocaleString()} characters (limit ${MAX_REVIEW_LENGTH.toLocaleString()})`,
+      })
+      if (options.skipTooLong) return
+    }
+
+    reviews.push(text)
+    sourceRows.push(rowIndex)
+    metadata.push(readMetadata(row, rowIndex, mapping, issues))
+  })
+
+  const issueCounts: Record<ImportIssueKind, number> = {
+    empty: 0,
+    duplicate: 0,
+    too_long: 0,
+    encoding: 0,
+    column_count: 0,
+    invalid_date: 0,
+    invalid_rating: 0,
+  }
+  for (const issue of issues) issueCounts[issue.kind]++
+
+  return { reviews, sourceRows, metadata, issues, issueCounts }
+}
+
+/**
+ * Writes the planned reviews as the single-column CSV the batch endpoint
+ * expects, keeping the original file's base name.
+ */
+export function buildUploadFile(plan: ImportPlan, fileName: string): File {
+  const base = fileName.replace(/\.[^.]+$/, "") || "reviews"
+  const csv = formatCsv(
+    ["review"],
+    plan.reviews.map((review) => [review]),
+  )
+  return new File([csv], `${base}.csv`, { type: "text/csv" })
+}
+
+/**
+ * Joins results back onto the user's file: each result's `index` (its
+ * position in the uploaded file) becomes the row it came from, and that
+ * row's mapped metadata is attached.
+ */
+export function joinSourceRows<T extends { index: number }>(
+  results: T[],
+  plan: Pick<ImportPlan, "sourceRows" | "metadata">,
+): (T & { metadata?: ReviewMetadata })[] {
+  return results.map((result) => {
+    const metadata = plan.metadata[result.index]
+    return {
+      ...result,
+      index: plan.sourceRows[result.index] ?? result.index,
+      ...(metadata && Object.keys(metadata).length > 0 ? { metadata } : {}),
+    }
+  })
+}
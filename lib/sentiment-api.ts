@@ -8,170 +8,163 @@
  * Features:
  * - Single text sentiment analysis
  * - Batch file processing
- * - Authentication token management
- * - Error handling and response validation
- * - Environment-based API configuration
+ * - Listing and re-opening finished batches by their S3 key
+ * - Asynchronous batch jobs, used when the backend advertises them on /health
+ * - Requests routed through the shared ApiClient (auth, errors, base URL)
+ * - Responses validated and normalized by the schemas in ./api-schemas
+ * - Automatic retry of transient failures and cancellation via AbortSignal
  * 
  * @author Prudhvi2702
  * @version 1.0.0
  * @module
  */
 
-import { AuthService } from "./auth"
-
-// API base URL with environment variable fallback
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "https://ox4zaij71h.execute-api.us-west-1.amazonaws.com/prod"
+import { ApiClient } from "./api-client"
+import {
+  batchJobStatusSchema,
+  batchListSchema,
+  batchResultSchema,
+  healthResponseSchema,
+  sentimentResultSchema,
+  type BatchJobResponse,
+  type BatchJobStatusResponse,
+  type BatchResultResponse,
+  type SentimentResultResponse,
+} from "./api-schemas"
+import type { UploadProgress } from "./batch-progress"
+import type { RetryOptions } from "./retry"
+import type { ReviewMetadata } from "./review-import"
+import type { Classified } from "./sentiment"
 
 /**
- * Sentiment Analysis Result Interface
+ * Sentiment Analysis Result
  * 
- * Defines the structure of sentiment analysis results returned by the API.
+ * Structure of a single-text analysis result after schema validation.
  * Used for both single text analysis and individual results in batch processing.
  * 
- * @interface SentimentResult
  * @property sentiment - The classified sentiment (Positive, Negative, or Neutral)
  * @property confidence - Confidence score from 0-1 indicating prediction certainty
  * @property review - Optional original text that was analyzed
  */
-export interface SentimentResult {
-  sentiment: "Positive" | "Negative" | "Neutral"
-  confidence: number
-  review?: string
-}
+export type SentimentResult = SentimentResultResponse
 
 /**
- * Batch Analysis Result Interface
+ * Batch Analysis Result
  * 
- * Defines the structure of batch sentiment analysis results returned by the API.
+ * Structure of a batch analysis result after schema validation.
  * Contains metadata about the batch processing and an array of individual results.
  * 
- * @interface BatchResult
  * @property file_name - Name of the uploaded CSV file
- * @property message - Status message from the batch processing
+ * @property message - Optional status message from the batch processing
  * @property processing_timestamp - ISO timestamp of when processing completed
- * @property reviews - Array of individual sentiment analysis results
- * @property s3_key - S3 storage key for the uploaded file
+ * @property reviews - Individual results; text aliases are merged into `review`
+ *   and labels are normalized to title case. `metadata` holds the columns
+ *   mapped at upload, joined on by row (see `joinSourceRows`)
+ * @property s3_key - Optional S3 storage key for the uploaded file
  * @property summary - Optional summary statistics of the batch results
  */
-export interface BatchResult {
-  file_name: string
-  message: string
-  processing_timestamp: string
-  reviews: Array<{
-    sentiment: string
-    confidence: number
-    original_text?: string
-    text?: string
-    review?: string
-    index?: number
-    processed_text?: string
-  }>
-  s3_key: string
-  summary?: {
-    positive: number
-    negative: number
-    neutral: number
-    positive_percentage: number
-    negative_percentage: number
-    neutral_percentage: number
-    total_reviews: number
-  }
+export type BatchResult = Omit<BatchResultResponse, "reviews"> & { reviews: BatchReview[] }
+
+/** One review of a batch result, with any metadata from the uploaded file. */
+export type BatchReview = BatchResultResponse["reviews"][number] & { metadata?: ReviewMetadata }
+
+/**
+ * A batch review after the neutral threshold has been applied.
+ * `rawLabel` is the model's label, `sentiment` the label shown to users.
+ */
+export type ClassifiedReview = Classified<BatchResult["reviews"][number]>
+
+/**
+ * A finished batch in the user's server-side history. `s3_key` identifies
+ * it for {@link SentimentAPI.getBatch}; `summary` counts model labels, before
+ * any neutral threshold.
+ */
+export type BatchJob = BatchJobResponse
+
+/**
+ * An asynchronous batch job as reported by the server. `result` is set once
+ * `status` is "completed" and `error` once it is "failed".
+ */
+export type BatchJobStatus = Omit<BatchJobStatusResponse, "result"> & { result?: BatchResult }
+
+/** Feature flag on /health advertising the asynchronous batch job endpoints. */
+export const ASYNC_BATCH_FEATURE = "async_batch"
+
+/**
+ * Per-call options for the analysis endpoints.
+ *
+ * @property signal - Cancels the request, including any pending retry
+ * @property retry - Override the retry policy; analysis calls retry transient
+ *   failures by default since repeating them has no side effects
+ * @property onUploadProgress - Receives upload byte progress (batch uploads only)
+ */
+export interface AnalyzeOptions {
+  signal?: AbortSignal
+  retry?: boolean | Partial<RetryOptions>
+  onUploadProgress?: (progress: UploadProgress) => void
 }
 
 export class SentimentAPI {
-  static async analyzeSentiment(text: string): Promise<SentimentResult> {
-    const token = AuthService.getToken()
-    console.log("Token retrieved:", token ? "Token exists" : "No token found")
-    console.log("Full token:", token)
-    
-    if (!token) throw new Error("Authentication required")
-
-    console.log("Making request to:", `${API_BASE_URL}/api/sentiment`)
-    console.log("Request headers:", {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`
-    })
-
-    const response = await fetch(`${API_BASE_URL}/api/sentiment`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify({ text }),
-    })
-
-    console.log("Response status:", response.status)
-    console.log("Response ok:", response.ok)
-    console.log("Response headers:", Object.fromEntries(response.headers.entries()))
-
-    if (!response.ok) {
-      if (response.status === 401) {
-        console.log("401 Unauthorized - removing token")
-        const errorText = await response.text()
-        console.log("401 Error response:", errorText)
-        AuthService.removeToken()
-        throw new Error("Session expired. Please log in again.")
-      }
-      const error = await response.json()
-      console.log("API Error:", error)
-      throw new Error(error.message || "Analysis failed")
-    }
-
-    const result = await response.json()
-    console.log("Analysis result:", result)
-    return result
+  // Whether the backend advertises async batch jobs, asked once per page load
+  private static asyncBatchSupport: Promise<boolean> | null = null
+
+  static async analyzeSentiment(text: string, options: AnalyzeOptions = {}): Promise<SentimentResult> {
+    const { signal, retry = true } = options
+    return ApiClient.post("/api/sentiment", { text }, sentimentResultSchema, { signal, retry })
   }
 
-  static async analyzeBatch(file: File): Promise<BatchResult> {
-    const token = AuthService.getToken()
-    console.log("Token for batch analysis:", token ? "Token exists" : "No token")
-    if (!token) throw new Error("Authentication required")
+  static async analyzeBatch(file: File, options: AnalyzeOptions = {}): Promise<BatchResult> {
+    const { signal, retry = true, onUploadProgress } = options
+    const formData = new FormData()
+    formData.append("file", file)
+    return ApiClient.post("/api/batch", formData, batchResultSchema, { signal, retry, onUploadProgress })
+  }
 
-    console.log("Starting batch analysis for file:", file.name)
-    console.log("File size:", file.size, "bytes")
-    console.log("File type:", file.type)
+  /**
+   * Whether the backend runs batches as asynchronous jobs. Backends that do
+   * not list the feature on /health, or cannot be reached, get the
+   * synchronous upload.
+   */
+  static supportsAsyncBatch(): Promise<boolean> {
+    this.asyncBatchSupport ??= ApiClient.get("/health", healthResponseSchema, { auth: false })
+      .then((health) => health.features.includes(ASYNC_BATCH_FEATURE))
+      .catch(() => {
+        // Ask again next time; the backend may only have been unreachable
+        this.asyncBatchSupport = null
+        return false
+      })
+    return this.asyncBatchSupport
+  }
 
+  /**
+   * Uploads a file as an asynchronous batch job. Resolves as soon as the
+   * server has accepted it; follow it with {@link SentimentAPI.getBatchJob}.
+   * Not retried by default: a repeated submit would start a second job.
+   */
+  static async submitBatchJob(file: File, options: AnalyzeOptions = {}): Promise<BatchJobStatus> {
+    const { signal, retry = false, onUploadProgress } = options
     const formData = new FormData()
     formData.append("file", file)
-    console.log("FormData created with file")
-
-    console.log("Making request to:", `${API_BASE_URL}/api/batch`)
-    const response = await fetch(`${API_BASE_URL}/api/batch`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-      body: formData,
-    })
-
-    console.log("Batch analysis response status:", response.status)
-    console.log("Batch analysis response ok:", response.ok)
-    console.log("Batch analysis response headers:", Object.fromEntries(response.headers.entries()))
-
-    if (!response.ok) {
-      if (response.status === 401) {
-        console.log("401 Unauthorized - removing token")
-        AuthService.removeToken()
-        throw new Error("Session expired. Please log in again.")
-      }
-      const errorText = await response.text()
-      console.log("Batch analysis error response:", errorText)
-      let error
-      try {
-        error = JSON.parse(errorText)
-      } catch (e) {
-        error = { message: errorText }
-      }
-      throw new Error(error.message || "Batch analysis failed")
-    }
-
-    const result = await response.json()
-    console.log("Batch analysis result:", result)
-    console.log("Result type:", typeof result)
-    console.log("Result keys:", Object.keys(result))
-    console.log("Result stringified:", JSON.stringify(result, null, 2))
-    
-    return result
+    return ApiClient.post("/api/batch/jobs", formData, batchJobStatusSchema, { signal, retry, onUploadProgress })
+  }
+
+  static async getBatchJob(jobId: string, options: Pick<AnalyzeOptions, "signal" | "retry"> = {}): Promise<BatchJobStatus> {
+    const { signal, retry = true } = options
+    return ApiClient.get(`/api/batch/jobs/${encodeURIComponent(jobId)}`, batchJobStatusSchema, { signal, retry })
+  }
+
+  /** Lists the user's finished batches, newest first. */
+  static async listBatches(options: Pick<AnalyzeOptions, "signal" | "retry"> = {}): Promise<BatchJob[]> {
+    const { signal, retry = true } = options
+    const { batches } = await ApiClient.get("/api/batches", batchListSchema, { signal, retry })
+    return batches
+  }
+
+  /** Fetches a finished batch with its reviews, by the S3 key it was stored under. */
+  static async getBatch(s3Key: string, options: Pick<AnalyzeOptions, "signal" | "retry"> = {}): Promise<BatchResult> {
+    const { signal, retry = true } = options
+    // Each key segment is encoded on its own so the key's slashes stay path separators
+    const path = s3Key.split("/").map(encodeURIComponent).join("/")
+    return ApiClient.get(`/api/batches/${path}`, batchResultSchema, { signal, retry })
   }
 }
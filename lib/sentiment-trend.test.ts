@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import { MAX_TREND_BUCKETS, buildSentimentTrend } from "./sentiment-trend"
+
+const review = (date?: string) => ({
+  sentiment: "Positive" as const,
+  confidence: 0.9,
+  metadata: date ? { date } : undefined,
+})
+
+describe("buildSentimentTrend", () => {
+  it("fills the days between the first and last date", () => {
+    const trend = buildSentimentTrend([review("2024-01-01"), review("2024-01-03"), review()], "day")
+    expect(trend.granularity).toBe("day")
+    expect(trend.buckets.map((bucket) => bucket.total)).toEqual([1, 0, 1])
+    expect(trend.undated).toBe(1)
+  })
+
+  it("leaves out dates before 1995 or in the future", () => {
+    const trend = buildSentimentTrend([review("1900-01-01"), review("2024-05-01"), review("2999-12-31")], "day")
+    expect(trend.buckets).toHaveLength(1)
+    expect(trend.outOfRange).toBe(2)
+  })
+
+  it("groups more coarsely when the dates span too many buckets", () => {
+    const trend = buildSentimentTrend([review("2000-01-01"), review("2024-12-31")], "day")
+    expect(trend.granularity).toBe("month")
+    expect(trend.buckets).toHaveLength(300)
+    expect(trend.buckets.length).toBeLessThanOrEqual(MAX_TREND_BUCKETS)
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * Sentiment Trend Module
+ *
+ * Groups dated reviews into day, week or month buckets for the trend chart
+ * above the results table. Dates are the YYYY-MM-DD strings the column
+ * mapping produces and are treated as calendar dates, so no time zone can
+ * move a review into the neighbouring bucket.
+ *
+ * Features:
+ * - Share of each sentiment and average confidence per bucket
+ * - Empty buckets kept, so gaps in the data show as gaps on the time axis
+ * - Reviews without a date, or with one no review can have, counted, not guessed
+ * - At most MAX_TREND_BUCKETS buckets, grouping more coarsely when needed
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+import { isPlausibleReviewDate, latestReviewDate, type ReviewMetadata } from "./review-import"
+import type { SentimentCounts, SentimentLabel } from "./sentiment"
+
+export type TrendGranularity = "day" | "week" | "month"
+
+export const TREND_GRANULARITY_LABELS: Record<TrendGranularity, string> = {
+  day: "Day",
+  week: "Week",
+  month: "Month",
+}
+
+interface TrendItem {
+  sentiment: SentimentLabel
+  confidence: number
+  metadata?: ReviewMetadata
+}
+
+/**
+ * One bucket of the trend. Shares and `averageConfidence` are null for an
+ * empty bucket, so charts leave a gap instead of drawing a zero.
+ *
+ * @property start - First day of the bucket, YYYY-MM-DD
+ * @property end - Last day of the bucket, YYYY-MM-DD
+ */
+export interface TrendBucket extends Record<SentimentLabel, number | null> {
+  label: string
+  start: string
+  end: string
+  total: number
+  counts: SentimentCounts
+  averageConfidence: number | null
+}
+
+/**
+ * @property granularity - The grouping used, coarser than the one asked
+ *   for when that would give more than MAX_TREND_BUCKETS buckets
+ * @property undated - Reviews left out because they have no date
+ * @property outOfRange - Reviews left out because their date is before
+ *   EARLIEST_REVIEW_DATE or in the future
+ */
+export interface SentimentTrend {
+  buckets: TrendBucket[]
+  granularity: TrendGranularity
+  undated: number
+  outOfRange: number
+}
+
+/** Most buckets a trend has; past this the chart is unreadable and slow. */
+export const MAX_TREND_BUCKETS = 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const GRANULARITIES: TrendGranularity[] = ["day", "week", "month"]
+
+// Dates are handled as UTC midnights so day arithmetic never meets a DST change
+function toTime(date: string): number {
+  const [year, month, day] = date.split("-").map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+function toDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+/** First day of the bucket `date` falls in; weeks start on Monday. */
+function bucketStart(date: string, granularity: TrendGranularity): number {
+  const time = toTime(date)
+  if (granularity === "day") return time
+  if (granularity === "week") return time - ((new Date(time).getUTCDay() + 6) % 7) * DAY_MS
+  const start = new Date(time)
+  return Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1)
+}
+
+function nextBucketStart(start: number, granularity: TrendGranularity): number {
+  if (granularity === "day") return start + DAY_MS
+  if (granularity === "week") return start + 7 * DAY_MS
+  const date = new Date(start)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+}
+
+function countBuckets(first: string, last: string, granularity: TrendGranularity): number {
+  const start = bucketStart(first, granularity)
+  const end = bucketStart(last, granularity)
+  if (granularity === "month") {
+    const from = new Date(start)
+    const to = new Date(end)
+    return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth() + 1
+  }
+  return Math.round((end - start) / (granularity === "day" ? DAY_MS : 7 * DAY_MS)) + 1
+}
+
+function bucketLabel(start: number, granularity: TrendGranularity): string {
+  const options: Intl.DateTimeFormatOptions =
+    granularity === "month"
+      ? { month: "short", year: "numeric", timeZone: "UTC" }
+      : { month: "short", day: "numeric", timeZone: "UTC" }
+  const label = new Date(start).toLocaleDateString(undefined, options)
+  return granularity === "week" ? `Week of ${label}` : label
+}
+
+/**
+ * A granularity that gives a readable number of buckets for the dates in
+ * `items`: days up to three months, weeks up to two years, then months.
+ */
+export function suggestGranularity(items: TrendItem[]): TrendGranularity {
+  const latest = latestReviewDate()
+  let first = Infinity
+  let last = -Infinity
+  for (const item of items) {
+    if (!item.metadata?.date || !isPlausibleReviewDate(item.metadata.date, latest)) continue
+    const time = toTime(item.metadata.date)
+    first = Math.min(first, time)
+    last = Math.max(last, time)
+  }
+  const days = (last - first) / DAY_MS
+  if (!(days > 92)) return "day"
+  return days > 730 ? "month" : "week"
+}
+
+/**
+ * Buckets the dated reviews in `items`, from the earliest date to the
+ * latest. Dates from EARLIEST_REVIEW_DATE to today are plotted; the trend
+ * falls back to weeks or months when `requested` would give more than
+ * MAX_TREND_BUCKETS buckets.
+ */
+export function buildSentimentTrend(items: TrendItem[], requested: TrendGranularity): SentimentTrend {
+  const latest = latestReviewDate()
+  const dated: { date: string; item: TrendItem }[] = []
+  let undated = 0
+  let outOfRange = 0
+  let firstDate = ""
+  let lastDate = ""
+  for (const item of items) {
+    const date = item.metadata?.date
+    if (!date) {
+      undated++
+    } else if (!isPlausibleReviewDate(date, latest)) {
+      outOfRange++
+    } else {
+      dated.push({ date, item })
+      if (!firstDate || date < firstDate) firstDate = date
+      if (date > lastDate) lastDate = date
+    }
+  }
+
+  // Months from 1995 to today stay well under the cap, so this always finds one
+  const granularity =
+    dated.length === 0
+      ? requested
+      : (GRANULARITIES.slice(GRANULARITIES.indexOf(requested)).find(
+          (option) => countBuckets(firstDate, lastDate, option) <= MAX_TREND_BUCKETS,
+        ) ?? "month")
+
+  const groups = new Map<number, { counts: SentimentCounts; confidenceSum: number }>()
+  for (const { date, item } of dated) {
+    const start = bucketStart(date, granularity)
+    let group = groups.get(start)
+    if (!group) {
+      group = { counts: { Positive: 0, Negative: 0, Neutral: 0 }, confidenceSum: 0 }
+      groups.set(start, group)
+    }
+    group.counts[item.sentiment]++
+    group.confidenceSum += item.confidence
+  }
+  if (groups.size === 0) return { buckets: [], granularity, undated, outOfRange }
+
+  const starts = [...groups.keys()]
+  const last = Math.max(...starts)
+  const buckets: TrendBucket[] = []
+  for (let start = Math.min(...starts); start <= last; start = nextBucketStart(start, granularity)) {
+    const group = groups.get(start)
+    const counts = group?.counts ?? { Positive: 0, Negative: 0, Neutral: 0 }
+    const total = counts.Positive + counts.Negative + counts.Neutral
+    const share = (label: SentimentLabel) => (total === 0 ? null : counts[label] / total)
+    buckets.push({
+      label: bucketLabel(start, granularity),
+      start: toDate(start),
+      end: toDate(nextBucketStart(start, granularity) - DAY_MS),
+      total,
+      counts,
+      averageConfidence: group && total > 0 ? group.confidenceSum / total : null,
+      Positive: share("Positive"),
+      Negative: share("Negative"),
+      Neutral: share("Neutral"),
+    })
+  }
+  return { buckets, granularity, undated, outOfRange }
+}
@@ -0,0 +1,110 @@
+/**
+ * Sentiment Domain Module
+ *
+ * Owns how model output becomes the sentiment shown to users. Every page and
+ * component classifies through these helpers, so label normalization and the
+ * neutral threshold are defined exactly once.
+ *
+ * Terminology:
+ * - raw label: the model's own label, normalized to title case
+ * - sentiment: the label shown to users, after the neutral threshold turns
+ *   low-confidence predictions into "Neutral"
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+export type SentimentLabel = "Positive" | "Negative" | "Neutral"
+
+export const SENTIMENT_LABELS: readonly SentimentLabel[] = ["Positive", "Negative", "Neutral"]
+
+/** Confidence below which a prediction is shown as Neutral, unless the user changes it. */
+export const DEFAULT_NEUTRAL_THRESHOLD = 0.7
+
+/** Range offered by the threshold setting. 0.5 disables the override for a two-class model. */
+export const NEUTRAL_THRESHOLD_RANGE = { min: 0.5, max: 0.99, step: 0.01 } as const
+
+const LABEL_ALIASES: Record<string, SentimentLabel> = {
+  positive: "Positive",
+  pos: "Positive",
+  negative: "Negative",
+  neg: "Negative",
+  neutral: "Neutral",
+  neu: "Neutral",
+}
+
+/**
+ * Normalizes a model label ("POSITIVE", "pos", "Negative", ...) to title case.
+ *
+ * @returns The label, or undefined when it is not a known sentiment
+ */
+export function parseSentimentLabel(value: string): SentimentLabel | undefined {
+  return LABEL_ALIASES[value.trim().toLowerCase()]
+}
+
+/**
+ * Derives the displayed sentiment from the model's label and confidence.
+ *
+ * @example
+ * classifySentiment("Positive", 0.8, 0.7) // "Positive"
+ * classifySentiment("Positive", 0.6, 0.7) // "Neutral" (low confidence)
+ */
+export function classifySentiment(rawLabel: SentimentLabel, confidence: number, threshold: number): SentimentLabel {
+  return confidence < threshold ? "Neutral" : rawLabel
+}
+
+/** A model prediction: the label as returned by the API plus its confidence. */
+export interface Prediction {
+  sentiment: SentimentLabel
+  confidence: number
+}
+
+/**
+ * A prediction after classification. `rawLabel` keeps the model's label;
+ * `sentiment` is the threshold-adjusted label shown to users.
+ */
+export type Classified<T extends Prediction> = Omit<T, "sentiment"> & {
+  rawLabel: SentimentLabel
+  sentiment: SentimentLabel
+}
+
+export function classifyPrediction<T extends Prediction>(prediction: T, threshold: number): Classified<T> {
+  return {
+    ...prediction,
+    rawLabel: prediction.sentiment,
+    sentiment: classifySentiment(prediction.sentiment, prediction.confidence, threshold),
+  }
+}
+
+export function classifyPredictions<T extends Prediction>(predictions: T[], threshold: number): Classified<T>[] {
+  return predictions.map((prediction) => classifyPrediction(prediction, threshold))
+}
+
+/**
+ * Re-runs classification on already classified items, e.g. after the user
+ * changes the threshold. Uses the preserved raw label, never the derived one.
+ */
+export function reclassify<T extends { rawLabel: SentimentLabel; confidence: number; sentiment: SentimentLabel }>(
+  items: T[],
+  threshold: number,
+): T[] {
+  return items.map((item) => ({ ...item, sentiment: classifySentiment(item.rawLabel, item.confidence, threshold) }))
+}
+
+export type SentimentCounts = Record<SentimentLabel, number>
+
+/** Counts items per sentiment in a single pass. */
+export function countSentiments(items: Iterable<{ sentiment: SentimentLabel }>): SentimentCounts {
+  const counts: SentimentCounts = { Positive: 0, Negative: 0, Neutral: 0 }
+  for (const item of items) counts[item.sentiment]++
+  return counts
+}
+
+/** The most frequent sentiment; ties and empty counts resolve to Neutral. */
+export function dominantSentiment(counts: SentimentCounts): SentimentLabel {
+  const { Positive, Negative, Neutral } = counts
+  if (Positive > Negative && Positive > Neutral) return "Positive"
+  if (Negative > Positive && Negative > Neutral) return "Negative"
+  return "Neutral"
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import { chiSquareSurvival, chiSquareTest } from "./statistics"
+
+describe("chiSquareSurvival", () => {
+  it("gives 0.05 at the tabulated critical values", () => {
+    expect(chiSquareSurvival(3.841, 1)).toBeCloseTo(0.05, 4)
+    expect(chiSquareSurvival(5.991, 2)).toBeCloseTo(0.05, 4)
+    expect(chiSquareSurvival(7.815, 3)).toBeCloseTo(0.05, 4)
+    expect(chiSquareSurvival(18.307, 10)).toBeCloseTo(0.05, 4)
+  })
+
+  it("matches the closed form for two degrees of freedom on both sides of a + 1", () => {
+    for (const x of [0.5, 1.5, 4, 20]) {
+      expect(chiSquareSurvival(x, 2)).toBeCloseTo(Math.exp(-x / 2), 10)
+    }
+    expect(chiSquareSurvival(1, 4)).toBeCloseTo(0.9098, 4)
+  })
+
+  it("is 1 at zero", () => {
+    expect(chiSquareSurvival(0, 1)).toBe(1)
+    expect(chiSquareSurvival(0, 3)).toBe(1)
+  })
+})
+
+describe("chiSquareTest", () => {
+  it("tests a contingency table", () => {
+    const result = chiSquareTest([
+      [20, 30],
+      [30, 20],
+    ])
+    expect(result?.statistic).toBeCloseTo(4, 10)
+    expect(result?.degreesOfFreedom).toBe(1)
+    expect(result?.pValue).toBeCloseTo(0.0455, 4)
+    expect(result?.lowExpectedCounts).toBe(false)
+  })
+
+  it("gives p = 1 when the groups have the same mix", () => {
+    const result = chiSquareTest([
+      [10, 20, 30],
+      [10, 20, 30],
+    ])
+    expect(result?.statistic).toBe(0)
+    expect(result?.pValue).toBe(1)
+  })
+
+  it("leaves out empty rows and columns", () => {
+    const result = chiSquareTest([
+      [20, 0, 30],
+      [0, 0, 0],
+      [30, 0, 20],
+    ])
+    expect(result?.degreesOfFreedom).toBe(1)
+    expect(result?.statistic).toBeCloseTo(4, 10)
+  })
+
+  it("flags expected counts below 5", () => {
+    expect(
+      chiSquareTest([
+        [1, 3],
+        [3, 1],
+      ])?.lowExpectedCounts,
+    ).toBe(true)
+  })
+
+  it("returns null with fewer than two non-empty rows or columns", () => {
+    expect(chiSquareTest([])).toBeNull()
+    expect(chiSquareTest([[5, 5, 5]])).toBeNull()
+    expect(
+      chiSquareTest([
+        [0, 0, 0],
+        [5, 5, 5],
+      ]),
+    ).toBeNull()
+    expect(
+      chiSquareTest([
+        [5, 0, 0],
+        [7, 0, 0],
+      ]),
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Statistics Helpers
+ *
+ * Small, dependency-free numeric helpers used by the result charts and the
+ * batch comparison.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+/**
+ * Five-number summary used by box plots.
+ */
+export interface BoxPlotStats {
+  min: number
+  q1: number
+  median: number
+  q3: number
+  max: number
+  count: number
+}
+
+/**
+ * Quantile of an ascending-sorted array using linear interpolation
+ * between closest ranks (the same method as numpy's default).
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/** Five-number summary of `values`, or null when there are none. */
+export function boxPlotStats(values: number[]): BoxPlotStats | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  return {
+    min: sorted[0],
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1],
+    count: sorted.length,
+  }
+}
+
+/**
+ * Index of the equal-width bin `value` falls into, for `binCount` bins over
+ * [0, 1]. A value of exactly 1 lands in the last bin.
+ */
+export function binIndex(value: number, binCount: number): number {
+  return Math.min(binCount - 1, Math.max(0, Math.floor(value * binCount)))
+}
+
+/**
+ * Result of a chi-square test of independence.
+ *
+ * @property lowExpectedCounts - Whether any expected count is below 5, where
+ *   the chi-square approximation becomes unreliable
+ */
+export interface ChiSquareResult {
+  statistic: number
+  degreesOfFreedom: number
+  pValue: number
+  lowExpectedCounts: boolean
+}
+
+/**
+ * Pearson's chi-square test of independence on a contingency table of
+ * counts (rows are groups, columns are categories). Rows and columns that
+ * are empty in every group are left out.
+ *
+ * @returns The test result, or null when fewer than two rows or columns
+ *   have any counts
+ */
+export function chiSquareTest(table: number[][]): ChiSquareResult | null {
+  const rows = table.filter((row) => row.some((count) => count > 0))
+  const columnCount = rows[0]?.length ?? 0
+  const columns = Array.from({ length: columnCount }, (_, column) => column).filter((column) =>
+    rows.some((row) => row[column] > 0),
+  )
+  if (rows.length < 2 || columns.length < 2) return null
+
+  const rowTotals = rows.map((row) => columns.reduce((sum, column) => sum + row[column], 0))
+  const columnTotals = columns.map((column) => rows.reduce((sum, row) => sum + row[column], 0))
+  const total = rowTotals.reduce((sum, count) => sum + count, 0)
+
+  let statistic = 0
+  let lowExpectedCounts = false
+  rows.forEach((row, r) => {
+    columns.forEach((column, c) => {
+      const expected = (rowTotals[r] * columnTotals[c]) / total
+      if (expected < 5) lowExpectedCounts = true
+      statistic += (row[column] - expected) ** 2 / expected
+    })
+  })
+
+  const degreesOfFreedom = (rows.length - 1) * (columns.length - 1)
+  return { statistic, degreesOfFreedom, pValue: chiSquareSurvival(statistic, degreesOfFreedom), lowExpectedCounts }
+}
+
+/** Probability that a chi-square variable with `degreesOfFreedom` exceeds `x`. */
+export function chiSquareSurvival(x: number, degreesOfFreedom: number): number {
+  if (x <= 0) return 1
+  return regularizedGammaQ(degreesOfFreedom / 2, x / 2)
+}
+
+// Lanczos approximation (g = 7, n = 9), accurate to about 15 digits
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+]
+
+function logGamma(z: number): number {
+  if (z < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z)
+  const shifted = z - 1
+  let sum = LANCZOS[0]
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (shifted + i)
+  const t = shifted + LANCZOS.length - 1.5
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum)
+}
+
+const GAMMA_EPSILON = 1e-14
+const GAMMA_MAX_ITERATIONS = 500
+
+/**
+ * Upper regularized incomplete gamma function Q(a, x), by its series below
+ * `a + 1` and its continued fraction above (Numerical Recipes, 6.2).
+ */
+function regularizedGammaQ(a: number, x: number): number {
+  const logPrefix = a * Math.log(x) - x - logGamma(a)
+
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n < GAMMA_MAX_ITERATIONS && Math.abs(term) > Math.abs(sum) * GAMMA_EPSILON; n++) {
+      term *= x / (a + n)
+      sum += term
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix))
+  }
+
+  // Modified Lentz's method
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let fraction = d
+  for (let n = 1; n < GAMMA_MAX_ITERATIONS; n++) {
+    const an = -n * (n - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < tiny) d = tiny
+    c = b + an / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    fraction *= delta
+    if (Math.abs(delta - 1) < GAMMA_EPSILON) break
+  }
+  return Math.min(1, fraction * Math.exp(logPrefix))
+}
@@ -0,0 +1,30 @@
+/**
+ * Token Storage Module
+ *
+ * Owns the persisted JWT used to authenticate API requests. Both the HTTP
+ * client and the authentication service read from here, so the storage key
+ * and the server-side rendering guard live in exactly one place.
+ *
+ * @author Prudhvi2702
+ * @version 1.0.0
+ * @module
+ */
+
+const TOKEN_KEY = "sentiment_analyzer_token"
+
+export class TokenStorage {
+  static get(): string | null {
+    if (typeof window === "undefined") return null
+    return localStorage.getItem(TOKEN_KEY)
+  }
+
+  static set(token: string): void {
+    if (typeof window === "undefined") return
+    localStorage.setItem(TOKEN_KEY, token)
+  }
+
+  static remove(): void {
+    if (typeof window === "undefined") return
+    localStorage.removeItem(TOKEN_KEY)
+  }
+}